@@ -2,7 +2,13 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { OrchestratorService, type ServerStatus, type Alert } from '@/services/monitoring/orchestratorService';
+import {
+  OrchestratorService,
+  orchestratorQueryKeys,
+  type ServerStatus,
+  type Alert,
+  type AlertsResponse,
+} from '@/services/monitoring/orchestratorService';
 import { useQuery, useMutation } from '@/services/hooks/useApi';
 import { handleApiError } from '@/services/utils/apiHelpers';
 
@@ -14,9 +20,10 @@ export const ServerStatusDashboard: React.FC = () => {
     error: serversError,
     refetch: refetchServers,
   } = useQuery(
-    () => OrchestratorService.getServers({ page: 1, limit: 20 }),
+    (signal) => OrchestratorService.getServers({ page: 1, limit: 20 }, { signal }),
     {
       immediate: true,
+      queryKey: orchestratorQueryKeys.serverList({ page: 1, limit: 20 }),
       refetchInterval: 30000, // Refresh every 30 seconds
       onError: (error) => {
         console.error('Failed to fetch servers:', handleApiError(error));
@@ -31,6 +38,7 @@ export const ServerStatusDashboard: React.FC = () => {
     () => OrchestratorService.getSystemOverview(),
     {
       immediate: true,
+      queryKey: orchestratorQueryKeys.overview,
       refetchInterval: 60000, // Refresh every minute
     }
   );
@@ -41,9 +49,8 @@ export const ServerStatusDashboard: React.FC = () => {
   } = useMutation(
     (serverId: string) => OrchestratorService.restartServer(serverId),
     {
-      onSuccess: () => {
-        refetchServers(); // Refresh server list after restart
-      },
+      // Refresh every mounted server view after a restart
+      invalidates: [orchestratorQueryKeys.servers, orchestratorQueryKeys.overview],
       onError: (error) => {
         alert(`Failed to restart server: ${handleApiError(error)}`);
       },
@@ -173,44 +180,55 @@ export const AlertsDashboard: React.FC = () => {
     status?: Alert['status'];
   }>({});
 
+  const alertsKey = orchestratorQueryKeys.alertList({ page: 1, limit: 50, ...filter });
+
   const {
     data: alertsData,
     loading,
     error,
-    refetch,
   } = useQuery(
-    () => OrchestratorService.getAlerts({ 
+    (signal) => OrchestratorService.getAlerts({ 
       page: 1, 
       limit: 50,
       ...filter 
-    }),
+    }, { signal }),
     {
       immediate: true,
+      queryKey: alertsKey,
       refetchInterval: 15000, // Refresh every 15 seconds
     }
   );
 
+  // Mark the alert as acknowledged right away, rolled back if the server refuses
+  const setAlertStatus = (status: Alert['status']) => (
+    current: AlertsResponse | null,
+    alertId: string
+  ): AlertsResponse | null => current && {
+    ...current,
+    alerts: current.alerts.map(alert => alert.id === alertId ? { ...alert, status } : alert),
+  };
+
   const {
     execute: acknowledgeAlert,
     loading: acknowledging,
+    errorMessage: acknowledgeError,
   } = useMutation(
     (alertId: string) => OrchestratorService.acknowledgeAlert(alertId),
     {
-      onSuccess: () => {
-        refetch(); // Refresh alerts after acknowledging
-      },
+      optimisticUpdate: { queryKey: alertsKey, update: setAlertStatus('acknowledged') },
+      invalidates: [orchestratorQueryKeys.alerts], // Other filters show the alert too
     }
   );
 
   const {
     execute: resolveAlert,
     loading: resolving,
+    errorMessage: resolveError,
   } = useMutation(
     (alertId: string) => OrchestratorService.resolveAlert(alertId),
     {
-      onSuccess: () => {
-        refetch(); // Refresh alerts after resolving
-      },
+      optimisticUpdate: { queryKey: alertsKey, update: setAlertStatus('resolved') },
+      invalidates: [orchestratorQueryKeys.alerts],
     }
   );
 
@@ -286,6 +304,12 @@ export const AlertsDashboard: React.FC = () => {
         </div>
       </div>
 
+      {(acknowledgeError || resolveError) && (
+        <div className="p-3 bg-red-100 border border-red-200 text-red-700 rounded">
+          {acknowledgeError || resolveError}
+        </div>
+      )}
+
       {/* Alerts List */}
       <div className="space-y-4">
         <h2 className="text-lg font-semibold">Alerts ({alertsData?.total || 0})</h2>
@@ -315,14 +339,14 @@ export const AlertsDashboard: React.FC = () => {
               {alert.status === 'active' && (
                 <div className="flex gap-2">
                   <button
-                    onClick={() => acknowledgeAlert(alert.id)}
+                    onClick={() => acknowledgeAlert(alert.id).catch(() => undefined)}
                     disabled={acknowledging}
                     className="text-sm bg-yellow-500 text-white px-3 py-1 rounded hover:bg-yellow-600 disabled:opacity-50"
                   >
                     {acknowledging ? 'Acknowledging...' : 'Acknowledge'}
                   </button>
                   <button
-                    onClick={() => resolveAlert(alert.id)}
+                    onClick={() => resolveAlert(alert.id).catch(() => undefined)}
                     disabled={resolving}
                     className="text-sm bg-green-500 text-white px-3 py-1 rounded hover:bg-green-600 disabled:opacity-50"
                   >
@@ -333,7 +357,7 @@ export const AlertsDashboard: React.FC = () => {
               
               {alert.status === 'acknowledged' && (
                 <button
-                  onClick={() => resolveAlert(alert.id)}
+                  onClick={() => resolveAlert(alert.id).catch(() => undefined)}
                   disabled={resolving}
                   className="text-sm bg-green-500 text-white px-3 py-1 rounded hover:bg-green-600 disabled:opacity-50"
                 >
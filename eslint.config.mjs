@@ -1,45 +0,0 @@
-/** @type {import('eslint').Linter.Config} */
-const eslintConfig = {
-  extends: ['next/core-web-vitals'],
-  ignorePatterns: ['.next/**', 'node_modules/**'],
-  rules: {
-    '@typescript-eslint/no-unused-vars': 'warn',
-    '@typescript-eslint/no-explicit-any': 'warn',
-    '@typescript-eslint/explicit-function-return-type': 'warn',
-    '@typescript-eslint/no-empty-function': 'warn',
-    '@typescript-eslint/no-empty-interface': 'warn',
-    '@typescript-eslint/ban-ts-comment': 'warn',
-    '@typescript-eslint/no-non-null-assertion': 'warn',
-    '@typescript-eslint/no-inferrable-types': 'warn',
-    '@typescript-eslint/no-var-requires': 'warn',
-    '@typescript-eslint/consistent-type-assertions': 'warn',
-    '@typescript-eslint/prefer-as-const': 'warn',
-    '@typescript-eslint/no-unnecessary-type-assertion': 'warn',
-    '@typescript-eslint/no-unnecessary-type-constraint': 'warn',
-    '@typescript-eslint/consistent-type-imports': 'warn',
-    '@typescript-eslint/consistent-type-exports': 'warn',
-    '@typescript-eslint/consistent-type-definitions': 'warn',
-    '@typescript-eslint/array-type': 'warn',
-    '@typescript-eslint/method-signature-style': 'warn',
-    '@typescript-eslint/member-delimiter-style': 'warn',
-    '@typescript-eslint/member-ordering': 'warn',
-    '@typescript-eslint/naming-convention': [
-      'warn',
-      {
-        'selector': 'variable',
-        'format': ['camelCase', 'UPPER_CASE', 'PascalCase']
-      }
-    ],
-    '@typescript-eslint/explicit-member-accessibility': [
-      'warn',
-      {
-        'accessibility': 'explicit',
-        'overrides': {
-          'constructors': 'no-public'
-        }
-      }
-    ]
-  }
-};
-
-export default eslintConfig;
\ No newline at end of file
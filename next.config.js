@@ -5,6 +5,11 @@ const nextConfig = {
     dirs: ['src'],
     ignoreDuringBuilds: false,
   },
+  env: {
+    // Always defined, so `process.env.NEXT_PUBLIC_APP_ENV === 'development'` checks are
+    // replaced by a constant and development-only code is dropped from other builds
+    NEXT_PUBLIC_APP_ENV: process.env.NEXT_PUBLIC_APP_ENV || process.env.NODE_ENV || 'development',
+  },
 };
 
 module.exports = nextConfig;
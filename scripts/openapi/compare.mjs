@@ -0,0 +1,194 @@
+// Changes between two versions of an OpenAPI spec, reported by diff.mjs
+import { deref, jsonContent, listOperations, successResponse } from './spec.mjs';
+
+const describeType = (schema) => {
+  if (!schema) return 'unknown';
+  if (schema.enum) return 'enum';
+  if (schema.allOf || schema.oneOf || schema.anyOf) return 'composed';
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(type => type && type !== 'null');
+  if (types.length === 0 && schema.properties) return 'object';
+  return types.join(' | ') || 'unknown';
+};
+
+const isNullable = (schema) => schema?.nullable === true || (Array.isArray(schema?.type) && schema.type.includes('null'));
+
+// Compare two schemas. Requests break when they demand more than before, responses when they
+// promise less. `seen` stops the walk on recursive schemas.
+const compareSchemas = (context, oldValue, newValue, location, direction, seen = new Set()) => {
+  const pair = `${oldValue?.$ref ?? ''}|${newValue?.$ref ?? ''}|${direction}`;
+  if (oldValue?.$ref && newValue?.$ref) {
+    if (seen.has(pair)) return;
+    seen.add(pair);
+  }
+
+  const oldSchema = deref(context.oldSpec, oldValue);
+  const newSchema = deref(context.newSpec, newValue);
+  if (!oldSchema || !newSchema) return;
+
+  const oldType = describeType(oldSchema);
+  const newType = describeType(newSchema);
+  if (oldType !== newType) {
+    context.breaking(`${location}: type changed from ${oldType} to ${newType}`);
+    return;
+  }
+
+  if (direction === 'response' && !isNullable(oldSchema) && isNullable(newSchema)) {
+    context.breaking(`${location}: can now be null`);
+  }
+  if (direction === 'request' && isNullable(oldSchema) && !isNullable(newSchema)) {
+    context.breaking(`${location}: no longer accepts null`);
+  }
+
+  if (oldSchema.enum && newSchema.enum) {
+    const removed = oldSchema.enum.filter(value => !newSchema.enum.includes(value));
+    const added = newSchema.enum.filter(value => !oldSchema.enum.includes(value));
+    if (direction === 'request' && removed.length > 0) {
+      context.breaking(`${location}: no longer accepts ${removed.join(', ')}`);
+    }
+    // New values aren't handled by code switching over the old ones
+    if (direction === 'response' && added.length > 0) {
+      context.breaking(`${location}: can now be ${added.join(', ')}`);
+    }
+    if (direction === 'request' && added.length > 0) {
+      context.change(`${location}: also accepts ${added.join(', ')}`);
+    }
+    return;
+  }
+
+  if (oldType === 'array') {
+    compareSchemas(context, oldSchema.items, newSchema.items, `${location}[]`, direction, seen);
+    return;
+  }
+
+  if (oldType !== 'object') return;
+
+  const oldProperties = oldSchema.properties ?? {};
+  const newProperties = newSchema.properties ?? {};
+  const oldRequired = new Set(oldSchema.required ?? []);
+  const newRequired = new Set(newSchema.required ?? []);
+
+  Object.keys(oldProperties).forEach((name) => {
+    const path = `${location}.${name}`;
+    if (!(name in newProperties)) {
+      context.breaking(`${path}: removed`);
+      return;
+    }
+    if (direction === 'response' && oldRequired.has(name) && !newRequired.has(name)) {
+      context.breaking(`${path}: no longer always present`);
+    }
+    if (direction === 'request' && !oldRequired.has(name) && newRequired.has(name)) {
+      context.breaking(`${path}: now required`);
+    }
+    compareSchemas(context, oldProperties[name], newProperties[name], path, direction, seen);
+  });
+
+  Object.keys(newProperties).filter(name => !(name in oldProperties)).forEach((name) => {
+    if (direction === 'request' && newRequired.has(name)) {
+      context.breaking(`${location}.${name}: added as required`);
+    } else {
+      context.change(`${location}.${name}: added`);
+    }
+  });
+};
+
+// Operations are matched by method and path, ignoring the names of path params
+const operationKey = ({ method, path }) => `${method} ${path.replace(/\{[^}]+\}/g, '{}')}`;
+
+const compareOperations = (context, oldOperation, newOperation) => {
+  const label = `${oldOperation.method} ${oldOperation.path}`;
+
+  const parameterKey = parameter => `${parameter.in}:${parameter.name}`;
+  const newParameters = new Map(newOperation.parameters.filter(value => value.in !== 'path').map(value => [parameterKey(value), value]));
+  const oldParameters = new Map(oldOperation.parameters.filter(value => value.in !== 'path').map(value => [parameterKey(value), value]));
+
+  oldParameters.forEach((parameter, key) => {
+    const location = `${label} ${parameter.in} parameter ${parameter.name}`;
+    const updated = newParameters.get(key);
+    if (!updated) {
+      context.breaking(`${location}: removed`);
+      return;
+    }
+    if (!parameter.required && updated.required) {
+      context.breaking(`${location}: now required`);
+    }
+    compareSchemas(context, parameter.schema, updated.schema, location, 'request');
+  });
+
+  newParameters.forEach((parameter, key) => {
+    if (oldParameters.has(key)) return;
+    const location = `${label} ${parameter.in} parameter ${parameter.name}`;
+    if (parameter.required) {
+      context.breaking(`${location}: added as required`);
+    } else {
+      context.change(`${location}: added`);
+    }
+  });
+
+  const oldBody = oldOperation.operation.requestBody && deref(context.oldSpec, oldOperation.operation.requestBody);
+  const newBody = newOperation.operation.requestBody && deref(context.newSpec, newOperation.operation.requestBody);
+  if (!oldBody && newBody?.required) {
+    context.breaking(`${label} request body: added as required`);
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) {
+      context.breaking(`${label} request body: now required`);
+    }
+    compareSchemas(
+      context,
+      jsonContent(context.oldSpec, oldBody)?.schema,
+      jsonContent(context.newSpec, newBody)?.schema,
+      `${label} request body`,
+      'request'
+    );
+  }
+
+  const oldResponse = successResponse(oldOperation.operation);
+  const newResponse = successResponse(newOperation.operation);
+  const oldContent = oldResponse && jsonContent(context.oldSpec, oldResponse);
+  const newContent = newResponse && jsonContent(context.newSpec, newResponse);
+  if (oldContent && !newContent) {
+    context.breaking(`${label} response: no longer has a body`);
+  } else if (oldContent && newContent) {
+    compareSchemas(context, oldContent.schema, newContent.schema, `${label} response`, 'response');
+  }
+
+  const oldSecurity = oldOperation.operation.security ?? context.oldSpec.security;
+  const newSecurity = newOperation.operation.security ?? context.newSpec.security;
+  if (Array.isArray(oldSecurity) && oldSecurity.length === 0 && !(Array.isArray(newSecurity) && newSecurity.length === 0)) {
+    context.breaking(`${label}: now requires authentication`);
+  }
+};
+
+// Breaking and other changes from oldSpec to newSpec, as messages per operation
+export const diffSpecs = (oldSpec, newSpec) => {
+  const breaking = [];
+  const changes = [];
+  const context = {
+    oldSpec,
+    newSpec,
+    breaking: message => breaking.push(message),
+    change: message => changes.push(message),
+  };
+
+  const newOperations = new Map(listOperations(newSpec).map(operation => [operationKey(operation), operation]));
+  const oldOperations = new Map(listOperations(oldSpec).map(operation => [operationKey(operation), operation]));
+
+  oldOperations.forEach((operation, key) => {
+    const updated = newOperations.get(key);
+    if (!updated) {
+      context.breaking(`${operation.method} ${operation.path}: removed`);
+      return;
+    }
+    if (operation.operation.operationId !== updated.operation.operationId) {
+      context.breaking(`${operation.method} ${operation.path}: operationId renamed from ${operation.operation.operationId} to ${updated.operation.operationId}, the generated method changes name`);
+    }
+    compareOperations(context, operation, updated);
+  });
+
+  newOperations.forEach((operation, key) => {
+    if (!oldOperations.has(key)) {
+      context.change(`${operation.method} ${operation.path}: added`);
+    }
+  });
+
+  return { breaking, changes };
+};
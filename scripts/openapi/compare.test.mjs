@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { diffSpecs } from './compare.mjs';
+
+const server = {
+  type: 'object',
+  required: ['id', 'status'],
+  properties: {
+    id: { type: 'string' },
+    status: { type: 'string', enum: ['online', 'offline'] },
+    region: { type: 'string' },
+  },
+};
+
+// Spec with GET /servers/{id} and POST /servers, changed through the overrides
+const spec = ({ schema = server, parameters = [], body = server, operationId = 'getServer' } = {}) => ({
+  openapi: '3.0.3',
+  info: { title: 'Orchestrator', version: '1.0.0' },
+  paths: {
+    '/servers/{id}': {
+      get: {
+        operationId,
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }, ...parameters],
+        responses: {
+          200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Server' } } } },
+        },
+      },
+    },
+    '/servers': {
+      post: {
+        operationId: 'createServer',
+        requestBody: { required: true, content: { 'application/json': { schema: body } } },
+        responses: { 201: { description: 'Created' } },
+      },
+    },
+  },
+  components: { schemas: { Server: schema } },
+});
+
+const withProperties = (base, properties, required = base.required) => ({
+  ...base,
+  required,
+  properties: { ...base.properties, ...properties },
+});
+
+describe('diffSpecs', () => {
+  it('finds no changes between equal specs', () => {
+    expect(diffSpecs(spec(), spec())).toEqual({ breaking: [], changes: [] });
+  });
+
+  it('reports removed operations and renamed operationIds', () => {
+    const removed = spec();
+    delete removed.paths['/servers'];
+
+    expect(diffSpecs(spec(), removed).breaking).toEqual(['POST /servers: removed']);
+    expect(diffSpecs(spec(), spec({ operationId: 'fetchServer' })).breaking).toEqual([
+      'GET /servers/{id}: operationId renamed from getServer to fetchServer, the generated method changes name',
+    ]);
+  });
+
+  it('matches operations whose path params were renamed', () => {
+    const renamed = spec();
+    renamed.paths['/servers/{serverId}'] = renamed.paths['/servers/{id}'];
+    delete renamed.paths['/servers/{id}'];
+
+    expect(diffSpecs(spec(), renamed)).toEqual({ breaking: [], changes: [] });
+  });
+
+  it('reports response fields that were removed, became optional or gained enum values', () => {
+    const { id: _id, ...properties } = server.properties;
+    const changed = {
+      ...server,
+      required: ['id'],
+      properties: { ...properties, status: { type: 'string', enum: ['online', 'offline', 'draining'] } },
+    };
+
+    expect(diffSpecs(spec(), spec({ schema: changed })).breaking).toEqual(expect.arrayContaining([
+      'GET /servers/{id} response.id: removed',
+      'GET /servers/{id} response.status: no longer always present',
+      'GET /servers/{id} response.status: can now be draining',
+    ]));
+  });
+
+  it('reports new required inputs as breaking and optional ones as changes', () => {
+    const diff = diffSpecs(spec(), spec({
+      parameters: [
+        { name: 'fields', in: 'query', required: true, schema: { type: 'string' } },
+        { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+      ],
+      body: withProperties(server, { owner: { type: 'string' } }, ['id', 'status', 'owner']),
+    }));
+
+    expect(diff.breaking).toEqual([
+      'GET /servers/{id} query parameter fields: added as required',
+      'POST /servers request body.owner: added as required',
+    ]);
+    expect(diff.changes).toEqual(['GET /servers/{id} query parameter verbose: added']);
+  });
+
+  it('reports changed types', () => {
+    const changed = withProperties(server, { region: { type: 'integer' } });
+
+    expect(diffSpecs(spec(), spec({ schema: changed })).breaking).toEqual([
+      'GET /servers/{id} response.region: type changed from string to integer',
+    ]);
+  });
+
+  it('reports new operations as changes', () => {
+    const added = spec();
+    added.paths['/alerts'] = { get: { operationId: 'getAlerts', responses: { 200: { description: 'OK' } } } };
+
+    expect(diffSpecs(spec(), added)).toEqual({ breaking: [], changes: ['GET /alerts: added'] });
+  });
+});
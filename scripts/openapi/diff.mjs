@@ -0,0 +1,42 @@
+// Report breaking changes between two versions of an OpenAPI spec
+// Breaking means code written against the old version stops compiling or misbehaves:
+// removed operations, new required inputs, removed or loosened response fields, changed types.
+// Exits with 1 when there are breaking changes, so it can gate a spec update in CI.
+//
+//   node scripts/openapi/diff.mjs <old spec> <new spec>
+//   node scripts/openapi/diff.mjs <backend> <new spec>   compares with the spec in openapi/
+import { diffSpecs } from './compare.mjs';
+import { BACKENDS, loadSpec } from './spec.mjs';
+
+const [oldArg, newArg] = process.argv.slice(2);
+if (!oldArg || !newArg) {
+  console.error('Usage: node scripts/openapi/diff.mjs <old spec | backend> <new spec>');
+  process.exit(2);
+}
+
+const oldFile = BACKENDS[oldArg]?.spec ?? oldArg;
+const oldSpec = loadSpec(oldFile);
+const newSpec = loadSpec(newArg);
+if (!oldSpec || !newSpec) {
+  console.error(`Spec not found: ${!oldSpec ? oldFile : newArg}`);
+  process.exit(2);
+}
+
+const { breaking, changes } = diffSpecs(oldSpec, newSpec);
+const versions = `${oldSpec.info?.version ?? oldFile} -> ${newSpec.info?.version ?? newArg}`;
+
+if (breaking.length === 0 && changes.length === 0) {
+  console.log(`${versions}: no changes`);
+} else {
+  console.log(`${versions}: ${breaking.length} breaking, ${changes.length} other`);
+}
+if (breaking.length > 0) {
+  console.log('\nBreaking changes:');
+  breaking.forEach(message => console.log(`  ✖ ${message}`));
+}
+if (changes.length > 0) {
+  console.log('\nOther changes:');
+  changes.forEach(message => console.log(`  • ${message}`));
+}
+
+process.exit(breaking.length > 0 ? 1 : 0);
@@ -0,0 +1,336 @@
+// Generate typed services from the OpenAPI specs in openapi/
+// For each backend with a spec it writes src/services/generated/<backend>.ts: the schemas as
+// TypeScript types, an endpoint registry (see src/services/api/endpoints.ts) and a class with
+// one static method per operation, sent through the backend's ApiService.
+//
+//   node scripts/openapi/generate.mjs [backend...]   write the files
+//   node scripts/openapi/generate.mjs --check        fail when a file is out of date
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import {
+  BACKENDS,
+  ROOT,
+  deref,
+  jsonContent,
+  listOperations,
+  loadSpec,
+  pascalCase,
+  refName,
+  successResponse,
+} from './spec.mjs';
+
+const isIdentifier = (name) => /^[A-Za-z_$][\w$]*$/.test(name);
+const propertyKey = (name) => (isIdentifier(name) ? name : `'${name}'`);
+const camelCase = (name) => pascalCase(name).replace(/^./, (char) => char.toLowerCase());
+const literal = (value) => (typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value));
+const comment = (text) => (text ? ` // ${text.replace(/\s+/g, ' ').trim()}` : '');
+
+const schemaTypes = (schema) => (Array.isArray(schema.type) ? schema.type : [schema.type]);
+
+const isNullable = (schema) => schema.nullable === true || schemaTypes(schema).includes('null');
+
+const isObjectSchema = (schema) => !schema.$ref && !schema.enum && !schema.allOf && !schema.oneOf && !schema.anyOf
+  && (schemaTypes(schema).includes('object') || Boolean(schema.properties));
+
+// TypeScript type of a schema. Named schemas are referenced by name, inline ones are spelled out.
+const toType = (schema, indent = '') => {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+
+  let type;
+  if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map(part => toType(part, indent)).join(' & ');
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf).map(part => toType(part, indent)).join(' | ');
+  } else if (isObjectSchema(schema)) {
+    type = objectType(schema, indent);
+  } else {
+    const types = schemaTypes(schema).filter(value => value !== 'null');
+    type = types.map((value) => {
+      switch (value) {
+        case 'string':
+          return schema.format === 'binary' ? 'Blob' : 'string';
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'array': {
+          const items = toType(schema.items, indent);
+          return /[|&]/.test(items) && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+        }
+        default:
+          return 'unknown';
+      }
+    }).join(' | ') || 'unknown';
+  }
+
+  return isNullable(schema) ? `${type} | null` : type;
+};
+
+const propertyLines = (schema, indent) => {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const optional = required.has(name) ? '' : '?';
+    return `${indent}  ${propertyKey(name)}${optional}: ${toType(property, `${indent}  `)};${comment(property.description)}`;
+  });
+};
+
+const objectType = (schema, indent) => {
+  if (!schema.properties || Object.keys(schema.properties).length === 0) {
+    const values = schema.additionalProperties && schema.additionalProperties !== true
+      ? toType(schema.additionalProperties, indent)
+      : 'unknown';
+    return `Record<string, ${values}>`;
+  }
+  return `{\n${propertyLines(schema, indent).join('\n')}\n${indent}}`;
+};
+
+// export interface for object schemas, export type for everything else
+const declareType = (name, schema) => {
+  const description = schema.description ? `// ${schema.description.replace(/\s+/g, ' ').trim()}\n` : '';
+  if (isObjectSchema(schema) && schema.properties && !isNullable(schema)) {
+    return `${description}export interface ${name} {\n${propertyLines(schema, '').join('\n')}\n}`;
+  }
+  return `${description}export type ${name} = ${toType(schema)};`;
+};
+
+// Type of a value that may need a declaration of its own, inline objects get a name.
+// Named response types also get a runtime schema, collected in decoders.
+const namedType = (schema, name, declarations, decoders) => {
+  if (schema.$ref || !isObjectSchema(schema)) {
+    return toType(schema);
+  }
+  declarations.push(declareType(name, schema));
+  decoders?.push([name, schema]);
+  return name;
+};
+
+const schemaName = (typeName) => `${typeName.replace(/^./, (char) => char.toLowerCase())}Schema`;
+
+// Runtime schema of a schema, see src/services/api/schema.ts. Composed schemas (allOf, oneOf,
+// anyOf) aren't checked.
+const toSchema = (value, indent = '') => {
+  if (!value) return 'schema.unknown()';
+  if (value.$ref) return `schema.lazy(() => ${schemaName(refName(value.$ref))})`;
+
+  let result;
+  if (value.enum) {
+    result = `schema.oneOf([${value.enum.map(literal).join(', ')}])`;
+  } else if (value.allOf || value.oneOf || value.anyOf) {
+    result = `schema.unknown() as Schema<${toType({ ...value, nullable: false }, indent)}>`;
+  } else if (isObjectSchema(value)) {
+    if (!value.properties || Object.keys(value.properties).length === 0) {
+      const values = value.additionalProperties && value.additionalProperties !== true
+        ? toSchema(value.additionalProperties, indent)
+        : 'schema.unknown()';
+      result = `schema.record(${values})`;
+    } else {
+      const required = new Set(value.required ?? []);
+      const fields = Object.entries(value.properties).map(([name, property]) => {
+        const field = toSchema(property, `${indent}  `);
+        return `${indent}  ${propertyKey(name)}: ${required.has(name) ? field : `schema.optional(${field})`},`;
+      });
+      result = `schema.object({\n${fields.join('\n')}\n${indent}})`;
+    }
+  } else {
+    const types = schemaTypes(value).filter(type => type !== 'null');
+    const type = types.length === 1 ? types[0] : null;
+    switch (type) {
+      case 'string':
+        result = value.format === 'binary' ? 'schema.unknown() as Schema<Blob>' : 'schema.string()';
+        break;
+      case 'integer':
+      case 'number':
+        result = 'schema.number()';
+        break;
+      case 'boolean':
+        result = 'schema.boolean()';
+        break;
+      case 'array':
+        result = `schema.array(${toSchema(value.items, indent)})`;
+        break;
+      default:
+        result = `schema.unknown() as Schema<${toType({ ...value, nullable: false, type: types }, indent)}>`;
+    }
+  }
+
+  return isNullable(value) ? `schema.nullable(${result})` : result;
+};
+
+const declareSchema = (name, value) => `export const ${schemaName(name)}: Schema<${name}> = ${toSchema(value)};`;
+
+// Query type of an operation: an exploded object parameter keeps its schema,
+// separate parameters are gathered into <Operation>Query
+const queryType = (spec, parameters, name, declarations) => {
+  if (parameters.length === 0) return null;
+
+  const [first] = parameters;
+  const firstSchema = first.schema && deref(spec, first.schema);
+  if (parameters.length === 1 && firstSchema && isObjectSchema(firstSchema) && first.explode !== false) {
+    return { type: namedType(first.schema, name, declarations), required: first.required === true };
+  }
+
+  const schema = {
+    type: 'object',
+    properties: Object.fromEntries(parameters.map(parameter => [
+      parameter.name,
+      { ...parameter.schema, description: parameter.description ?? parameter.schema?.description },
+    ])),
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+  };
+  declarations.push(declareType(name, schema));
+  return { type: name, required: schema.required.length > 0 };
+};
+
+const buildOperation = (spec, entry, declarations, decoders, skipped) => {
+  const { method, path, operation, parameters } = entry;
+  const name = operation.operationId
+    ? camelCase(operation.operationId)
+    : camelCase(`${method.toLowerCase()} ${path.replace(/[{}]/g, '')}`);
+  const typeName = pascalCase(name);
+
+  const requestBody = operation.requestBody && deref(spec, operation.requestBody);
+  const body = requestBody && jsonContent(spec, requestBody);
+  if (requestBody && !body) {
+    skipped.push(`${name} (${method} ${path}): only JSON request bodies are generated`);
+    return null;
+  }
+
+  // Path params in the order they appear in the url
+  const pathParams = [...path.matchAll(/\{([^}]+)\}/g)].map(([, paramName]) => {
+    const parameter = parameters.find(value => value.in === 'path' && value.name === paramName);
+    return { name: paramName, argument: camelCase(paramName), type: toType(parameter?.schema ?? { type: 'string' }) };
+  });
+  const query = queryType(spec, parameters.filter(value => value.in === 'query'), `${typeName}Query`, declarations);
+  const bodyType = body ? namedType(body.schema, `${typeName}Request`, declarations) : null;
+
+  const response = successResponse(operation);
+  const responseContent = response && jsonContent(spec, response);
+  const responseType = responseContent ? namedType(responseContent.schema, `${typeName}Response`, declarations, decoders) : 'void';
+
+  const security = operation.security ?? spec.security;
+  const isPublic = Array.isArray(security) && security.length === 0;
+
+  // Method arguments: path params, body, query, config. Only trailing ones can be optional.
+  const args = [
+    ...pathParams.map(param => ({ name: param.argument, type: param.type, required: true })),
+    ...(bodyType ? [{ name: 'body', type: bodyType, required: requestBody.required === true }] : []),
+    ...(query ? [{ name: 'params', type: query.type, required: query.required }] : []),
+    { name: 'config', type: 'RequestConfig', required: false },
+  ];
+  let trailingOptional = true;
+  const signature = args.slice().reverse().map((arg) => {
+    trailingOptional = trailingOptional && !arg.required;
+    if (trailingOptional) return `${arg.name}?: ${arg.type}`;
+    return arg.required ? `${arg.name}: ${arg.type}` : `${arg.name}: ${arg.type} | undefined`;
+  }).reverse().join(', ');
+
+  const request = [
+    pathParams.length > 0
+      ? `path: { ${pathParams.map(param => (param.name === param.argument ? param.name : `${propertyKey(param.name)}: ${param.argument}`)).join(', ')} }`
+      : null,
+    query ? 'query: params' : null,
+    bodyType ? 'body' : null,
+    'config',
+  ].filter(Boolean).join(', ');
+
+  const generics = bodyType
+    ? [responseType, query?.type ?? 'never', requestBody.required === true ? bodyType : `${bodyType} | undefined`]
+    : query ? [responseType, query.type] : [responseType];
+  const url = path.replace(/\{([^}]+)\}/g, ':$1');
+  const definition = [`method: '${method}'`, `url: '${url}'`, ...(isPublic ? ['requiresAuth: false'] : [])].join(', ');
+
+  return {
+    endpoint: `  ${name}: defineEndpoint<${generics.join(', ')}>()({ ${definition} }),`,
+    method: [
+      `  // ${(operation.summary ?? `${method} ${path}`).replace(/\s+/g, ' ').trim()}`,
+      `  static async ${name}(${signature}): Promise<ApiResponse<${responseType}>> {`,
+      `    return client.${name}({ ${request} });`,
+      '  }',
+    ].join('\n'),
+  };
+};
+
+const generate = (backend, { spec: specFile, service }) => {
+  const spec = loadSpec(specFile);
+  if (!spec) return null;
+
+  const schemas = Object.entries(spec.components?.schemas ?? {});
+  const declarations = schemas.map(([name, schema]) => declareType(name, schema));
+  const decoders = [...schemas];
+  const skipped = [];
+  const operations = listOperations(spec)
+    .map(entry => buildOperation(spec, entry, declarations, decoders, skipped))
+    .filter(Boolean);
+
+  const registry = `${backend}Endpoints`;
+  const className = `${pascalCase(backend)}Api`;
+  const title = [spec.info?.title, spec.info?.version].filter(Boolean).join(' ');
+
+  const source = [
+    `// Generated from ${specFile}${title ? ` (${title})` : ''} by \`npm run api:generate\`.`,
+    '// Do not edit, change the spec and generate again.',
+    ...skipped.map(note => `// Not generated: ${note}`),
+    `import { createApiClient, defineEndpoint, schema, ${service} } from '@/services/api';`,
+    "import type { ApiResponse, RequestConfig, Schema } from '@/services/api';",
+    '',
+    declarations.join('\n\n'),
+    '',
+    '// Runtime schemas, for the schema option of RequestConfig',
+    decoders.map(([name, value]) => declareSchema(name, value)).join('\n\n'),
+    '',
+    `export const ${registry} = {`,
+    ...operations.map(operation => operation.endpoint),
+    '};',
+    '',
+    `const client = createApiClient(${service}, ${registry});`,
+    '',
+    `export class ${className} {`,
+    operations.map(operation => operation.method).join('\n\n'),
+    '}',
+    '',
+  ].join('\n');
+
+  return { source, skipped };
+};
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const selected = args.filter(arg => !arg.startsWith('--'));
+const unknown = selected.filter(backend => !BACKENDS[backend]);
+if (unknown.length > 0) {
+  console.error(`Unknown backend ${unknown.join(', ')}, expected one of ${Object.keys(BACKENDS).join(', ')}`);
+  process.exit(1);
+}
+
+let stale = false;
+(selected.length > 0 ? selected : Object.keys(BACKENDS)).forEach((backend) => {
+  const config = BACKENDS[backend];
+  const result = generate(backend, config);
+  if (!result) {
+    console.log(`${backend}: no spec at ${config.spec}, skipped`);
+    return;
+  }
+
+  const output = resolve(ROOT, config.output);
+  if (check) {
+    const current = existsSync(output) ? readFileSync(output, 'utf8') : null;
+    if (current !== result.source) {
+      console.error(`${backend}: ${config.output} is out of date, run npm run api:generate`);
+      stale = true;
+    }
+    return;
+  }
+
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, result.source);
+  console.log(`${backend}: wrote ${config.output}`);
+  result.skipped.forEach(note => console.log(`  not generated: ${note}`));
+});
+
+if (stale) {
+  process.exit(1);
+}
@@ -0,0 +1,93 @@
+// Reading OpenAPI 3 documents, shared by the generator and the diff
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+export const ROOT = resolve(import.meta.dirname, '../..');
+
+// One spec per backend, the service is its ApiService instance in '@/services/api'
+export const BACKENDS = {
+  main: { spec: 'openapi/main.json', service: 'apiService', output: 'src/services/generated/main.ts' },
+  auth: { spec: 'openapi/auth.json', service: 'authService', output: 'src/services/generated/auth.ts' },
+  orchestrator: { spec: 'openapi/orchestrator.json', service: 'orchestratorService', output: 'src/services/generated/orchestrator.ts' },
+};
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+export const loadSpec = (file) => {
+  const path = resolve(ROOT, file);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const spec = JSON.parse(readFileSync(path, 'utf8'));
+  if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+    throw new Error(`${file} is not an OpenAPI 3 document`);
+  }
+  return spec;
+};
+
+export const refName = (ref) => ref.split('/').pop();
+
+// Follow a local $ref such as '#/components/schemas/User'
+export const deref = (spec, value) => {
+  let current = value;
+  const seen = new Set();
+  while (current && current.$ref) {
+    if (seen.has(current.$ref)) {
+      throw new Error(`Circular $ref ${current.$ref}`);
+    }
+    seen.add(current.$ref);
+    current = current.$ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+  }
+  return current;
+};
+
+export const pascalCase = (value) => value
+  .replace(/[^a-zA-Z0-9]+(.)/g, (_match, char) => char.toUpperCase())
+  .replace(/^./, (char) => char.toUpperCase());
+
+// Every operation of the spec, with the path item's parameters merged into its own
+export const listOperations = (spec) => {
+  const operations = [];
+
+  Object.entries(spec.paths ?? {}).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) return;
+
+      const parameters = new Map();
+      [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])].forEach((parameter) => {
+        const resolved = deref(spec, parameter);
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      });
+
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operation,
+        parameters: Array.from(parameters.values()),
+      });
+    });
+  });
+
+  return operations;
+};
+
+// JSON body of a request body or response, null when it has none
+export const jsonContent = (spec, value) => {
+  const content = deref(spec, value)?.content;
+  if (!content) return null;
+  const mediaType = Object.keys(content).find(type => type === 'application/json' || type.endsWith('+json'));
+  return mediaType ? content[mediaType] : null;
+};
+
+// First successful response of an operation
+export const successResponse = (operation) => {
+  const status = Object.keys(operation.responses ?? {})
+    .filter(code => /^2\d\d$/.test(code) || code === '2XX')
+    .sort()[0];
+  return status ? operation.responses[status] : null;
+};
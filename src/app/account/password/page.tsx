@@ -0,0 +1,161 @@
+'use client';
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AuthService } from "@/services/auth/authService";
+import type { PasswordFieldErrors, PasswordFormError } from "@/services/auth/authService";
+import { usePasswordChecks } from "@/services/hooks/usePasswordChecks";
+import PasswordPolicyChecklist from "@/components/PasswordPolicyChecklist";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
+
+const inputClassName = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400";
+
+export default function ChangePasswordPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<PasswordFieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const { checks, acceptable } = usePasswordChecks(newPassword, {
+    confirmPassword,
+    currentPassword,
+    username: user?.username,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+    setIsSubmitting(true);
+
+    try {
+      await AuthService.changePassword({ currentPassword, newPassword });
+      setChanged(true);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setFieldErrors((err as PasswordFormError).formErrors || { form: 'Failed to change password' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-xl">🔄 Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // RouteGuard redirects to login
+  }
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <header className="bg-gray-800 border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">🔒 Change Password</h1>
+          <div className="flex items-center gap-4">
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
+            <button
+              onClick={() => router.push('/')}
+              className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🏠 Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="max-w-md mx-auto p-8">
+        {changed && (
+          <div className="mb-6 p-3 bg-green-900/50 border border-green-700 text-green-300 rounded">
+            ✅ Your password has been changed.
+          </div>
+        )}
+
+        {fieldErrors.form && (
+          <div className="mb-6 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+            {fieldErrors.form}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700 space-y-4">
+          <div>
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-300 mb-1">
+              Current password
+            </label>
+            <input
+              type="password"
+              id="currentPassword"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className={inputClassName}
+              autoComplete="current-password"
+              required
+              disabled={isSubmitting}
+            />
+            {fieldErrors.currentPassword && (
+              <p className="mt-1 text-sm text-red-400">{fieldErrors.currentPassword}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="newPassword" className="block text-sm font-medium text-gray-300 mb-1">
+              New password
+            </label>
+            <input
+              type="password"
+              id="newPassword"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+              required
+              disabled={isSubmitting}
+            />
+            {fieldErrors.newPassword && (
+              <p className="mt-1 text-sm text-red-400">{fieldErrors.newPassword}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-1">
+              Confirm new password
+            </label>
+            <input
+              type="password"
+              id="confirmPassword"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <PasswordPolicyChecklist checks={checks} />
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !acceptable || !currentPassword}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? '🔄 Saving...' : '💾 Change Password'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { QRCodeSVG } from "qrcode.react";
+import { AuthService } from "@/services/auth/authService";
+import type { TwoFactorEnrollment } from "@/services/auth/twoFactor";
+import type { ApiError } from "@/services/api";
+import { handleApiError } from "@/services/utils/apiHelpers";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
+
+export default function TwoFactorPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await AuthService.startTwoFactorEnrollment();
+      if (response.success && response.data) {
+        setEnrollment(response.data);
+      } else {
+        setError(response.message || 'Failed to start enrollment');
+      }
+    } catch (err) {
+      setError(handleApiError(err as ApiError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await AuthService.confirmTwoFactorEnrollment(code.replace(/\s/g, ''));
+      if (response.success && response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+        setEnrollment(null);
+      } else {
+        setError(response.message || 'Failed to confirm enrollment');
+      }
+    } catch (err) {
+      setError(AuthService.getLoginErrorMessage(err as ApiError));
+    } finally {
+      setBusy(false);
+      setCode('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-xl">🔄 Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // RouteGuard redirects to login
+  }
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <header className="bg-gray-800 border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">🔑 Two-Factor Authentication</h1>
+          <div className="flex items-center gap-4">
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
+            <button
+              onClick={() => router.push('/')}
+              className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🏠 Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="max-w-2xl mx-auto p-8">
+        {error && (
+          <div className="mb-6 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes ? (
+          <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700">
+            <h2 className="text-xl font-semibold mb-2 text-white">✅ Two-factor authentication is on</h2>
+            <p className="text-gray-300 mb-4">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose
+              access to your authenticator app. They won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono bg-gray-900 p-4 rounded border border-gray-700">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode} className="text-green-400">{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        ) : enrollment ? (
+          <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700">
+            <h2 className="text-xl font-semibold mb-2 text-white">📱 Scan the QR code</h2>
+            <p className="text-gray-300 mb-4">
+              Scan this code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center mb-4">
+              <div className="bg-white p-4 rounded">
+                <QRCodeSVG value={enrollment.otpauthUri} size={192} />
+              </div>
+            </div>
+            <p className="text-sm text-gray-400 mb-6 text-center">
+              Can&apos;t scan it? Enter this key instead:{' '}
+              <code className="text-gray-200 break-all">{enrollment.secret}</code>
+            </p>
+
+            <form onSubmit={handleConfirm} className="flex gap-3">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400 tracking-widest font-mono"
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9 ]{6,7}"
+                maxLength={7}
+                aria-label="Verification code"
+                required
+                disabled={busy}
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy ? '🔄 Verifying...' : '✅ Confirm'}
+              </button>
+            </form>
+          </div>
+        ) : (
+          <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700">
+            <h2 className="text-xl font-semibold mb-2 text-white">🛡️ Protect your account</h2>
+            <p className="text-gray-300 mb-4">
+              With two-factor authentication, signing in also needs a code from an authenticator
+              app on your phone.
+            </p>
+            <button
+              onClick={handleStart}
+              disabled={busy}
+              className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? '🔄 Starting...' : '🔑 Set up authenticator'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { createSession, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+// Complete a two-factor challenge and start the cookie session
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  const verification: unknown = await request.json().catch(() => null);
+  if (!verification) {
+    return jsonError('Challenge and code are required', 400, 'BAD_REQUEST');
+  }
+
+  return createSession('/login/2fa/verify', verification);
+}
@@ -0,0 +1,15 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { TOKEN_COOKIE, forwardRequest, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+// Issue a short-lived SignalR ticket from the orchestrator, so the hub connection
+// never needs the access token itself
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+  if (!request.cookies.get(TOKEN_COOKIE)) {
+    return jsonError('Not authenticated', 401, 'UNAUTHORIZED');
+  }
+
+  return forwardRequest(request, 'orchestrator', ['hubs', 'tickets']);
+}
@@ -0,0 +1,16 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { createSession, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+// Authenticate against the login server and keep the token in an httpOnly cookie
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  const credentials: unknown = await request.json().catch(() => null);
+  if (!credentials) {
+    return jsonError('Username and password are required', 400, 'BAD_REQUEST');
+  }
+
+  return createSession('/login/authenticate', credentials);
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { clearSessionCookies, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+// Drop the session cookies
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  return clearSessionCookies(NextResponse.json({ message: 'Logged out successfully' }));
+}
@@ -0,0 +1,15 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { createSession, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+// Quick login for testing, through the same cookie session as a regular login.
+// Development builds only.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (process.env.NEXT_PUBLIC_APP_ENV !== 'development') {
+    return jsonError('Not found', 404, 'NOT_FOUND');
+  }
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  return createSession('/login/quick-login', undefined);
+}
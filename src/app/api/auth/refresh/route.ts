@@ -0,0 +1,25 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { RefreshTokenRequest } from '@/services/auth/authService';
+import {
+  REFRESH_COOKIE,
+  clearSessionCookies,
+  createSession,
+  isSameOriginRequest,
+  jsonError,
+} from '@/services/bff/server';
+
+// Exchange the refresh token cookie for new session cookies
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!refreshToken) {
+    return clearSessionCookies(jsonError('No refresh token', 401, 'UNAUTHORIZED'));
+  }
+
+  const body: RefreshTokenRequest = { refreshToken };
+  const response = await createSession('/login/refresh', body, refreshToken);
+  return response.ok ? response : clearSessionCookies(response);
+}
@@ -0,0 +1,27 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { forwardRequest, isBackendName, isSameOriginRequest, jsonError } from '@/services/bff/server';
+
+interface RouteContext {
+  params: Promise<{ backend: string; path: string[] }>;
+}
+
+// Forward /api/proxy/<backend>/<path> to the main, auth or orchestrator API with the
+// session token attached on the server side
+const handle = async (request: NextRequest, { params }: RouteContext): Promise<NextResponse> => {
+  const { backend, path } = await params;
+
+  if (!isBackendName(backend)) {
+    return jsonError(`Unknown backend: ${backend}`, 404, 'NOT_FOUND');
+  }
+  if (!isSameOriginRequest(request)) {
+    return jsonError('Cross-site request rejected', 403, 'CSRF_REJECTED');
+  }
+
+  return forwardRequest(request, backend, path);
+};
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -0,0 +1,50 @@
+'use client';
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { routeConfig } from "@/services/auth/routes";
+
+// Redirect target of the identity provider after single sign-on
+export default function AuthCallbackPage() {
+  const { completeSsoLogin } = useAuth();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code can only be redeemed once, also under StrictMode double effects
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    completeSsoLogin(new URLSearchParams(window.location.search))
+      .then((returnTo) => router.replace(returnTo))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Single sign-on failed'));
+  }, [completeSsoLogin, router]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="max-w-md mx-auto p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-center">
+          <h2 className="text-2xl font-bold mb-4 text-white">⚠️ Sign-in Failed</h2>
+          <div className="mb-6 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+            {error}
+          </div>
+          <Link
+            href={routeConfig.loginPath}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
+          >
+            🔐 Back to Login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+      <div className="text-white text-xl">🔄 Signing in...</div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from "react";
+import Link from "next/link";
+import { AuthService } from "@/services/auth/authService";
+import type { PasswordFieldErrors, PasswordFormError } from "@/services/auth/authService";
+import { routeConfig } from "@/services/auth/routes";
+
+export default function ForgotPasswordPage() {
+  const [login, setLogin] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<PasswordFieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+    setIsSubmitting(true);
+
+    try {
+      await AuthService.requestPasswordReset({ login: login.trim() });
+      setSent(true);
+    } catch (err) {
+      setFieldErrors((err as PasswordFormError).formErrors || { form: 'Failed to request a reset link' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+      <div className="w-full max-w-md p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+        <h2 className="text-2xl font-bold mb-2 text-center text-white">🔑 Forgot Password</h2>
+
+        {sent ? (
+          <p className="text-gray-300 text-center my-6">
+            If an account matches, a reset link is on its way. It is valid for a limited time.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400 mb-6 text-center">
+              Enter your username or email address and we&apos;ll send you a link to reset your password.
+            </p>
+
+            {fieldErrors.form && (
+              <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+                {fieldErrors.form}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="login" className="block text-sm font-medium text-gray-300 mb-1">
+                  Username or email
+                </label>
+                <input
+                  type="text"
+                  id="login"
+                  value={login}
+                  onChange={(e) => setLogin(e.target.value)}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400"
+                  autoComplete="username"
+                  required
+                  disabled={isSubmitting}
+                />
+                {fieldErrors.login && (
+                  <p className="mt-1 text-sm text-red-400">{fieldErrors.login}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? '🔄 Sending...' : '📧 Send Reset Link'}
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="mt-4 pt-4 border-t border-gray-700 text-center text-sm">
+          <Link href={routeConfig.loginPath} className="text-blue-400 hover:text-blue-300">
+            ← Back to login
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,11 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContext";
+import SessionExpiryWarning from "@/components/SessionExpiryWarning";
+import RouteGuard from "@/components/RouteGuard";
+import IdleLockScreen from "@/components/IdleLockScreen";
+import StepUpDialog from "@/components/StepUpDialog";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -29,7 +34,13 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <AuthProvider>
-          {children}
+          <SessionExpiryWarning />
+          <ImpersonationBanner />
+          <RouteGuard>
+            {children}
+          </RouteGuard>
+          <StepUpDialog />
+          <IdleLockScreen />
         </AuthProvider>
       </body>
     </html>
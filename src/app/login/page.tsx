@@ -1,19 +1,8 @@
 'use client';
 
 import LoginForm from "@/components/LoginForm";
-import { useAuth } from "@/contexts/AuthContext";
-import { useEffect } from "react";
-import { useRouter } from "next/navigation";
 
 export default function LoginPage() {
-  const { user, loading } = useAuth();
-  const router = useRouter();
-
-  useEffect(() => {
-    if (!loading && user) {
-      router.push('/');
-    }
-  }, [loading, user, router]);
   return (
     <div className="min-h-screen bg-gray-900 flex items-center justify-center">
       <div className="w-full max-w-md">
@@ -3,39 +3,33 @@
 import Image from "next/image";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
-import { getSessions } from "@/services/monitoring/orchestratorService";
+import { getSessions, orchestratorQueryKeys } from "@/services/monitoring/orchestratorService";
+import type { SessionQuery } from "@/services/monitoring/orchestratorService";
+import { useQuery } from "@/services/hooks/useApi";
+import { handleApiError, isCancelledError } from "@/services/utils/apiHelpers";
+import PermissionGuard from "@/components/PermissionGuard";
+import ImpersonationPanel from "@/components/ImpersonationPanel";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
+
+const RECENT_SESSIONS_QUERY: SessionQuery = { limit: 10, sortBy: 'lastActivityAt', sortOrder: 'desc' };
 
 export default function Home() {
   const { user, loading, logout } = useAuth();
-  const router = useRouter();
-  const [sessions, setSessions] = useState<string[]>([]);
-  const [sessionsLoading, setSessionsLoading] = useState(false);
-  const [sessionsError, setSessionsError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!loading && !user) {
-      router.push('/login');
-    }
-  }, [loading, user, router]);
+  // Fetched on demand, shares its cache with the sessions page and refetches after revokes there
+  const {
+    data: sessionsData,
+    loading: sessionsLoading,
+    error: sessionsApiError,
+    refetch: refetchSessions,
+  } = useQuery(
+    signal => getSessions(RECENT_SESSIONS_QUERY, { signal }),
+    { queryKey: orchestratorQueryKeys.sessionList(RECENT_SESSIONS_QUERY), enabled: false }
+  );
+  const sessions = sessionsData?.sessions ?? [];
+  const sessionsError = sessionsApiError && !isCancelledError(sessionsApiError) ? handleApiError(sessionsApiError) : null;
 
-  const handleGetSessions = async () => {
-    setSessionsLoading(true);
-    setSessionsError(null);
-    
-    try {
-      const response = await getSessions();
-      if (response.success && response.data) {
-        setSessions(response.data);
-      } else {
-        setSessionsError(response.message || 'Failed to fetch sessions');
-      }
-    } catch (error) {
-      setSessionsError(error instanceof Error ? error.message : 'An error occurred');
-    } finally {
-      setSessionsLoading(false);
-    }
+  const handleGetSessions = () => {
+    refetchSessions().catch(() => undefined);
   };
 
   if (loading) {
@@ -47,7 +41,7 @@ export default function Home() {
   }
 
   if (!user) {
-    return null; // Will redirect to login
+    return null; // RouteGuard redirects to login
   }
   return (
     <div className="font-sans min-h-screen bg-gray-900 text-white">
@@ -56,7 +50,20 @@ export default function Home() {
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <h1 className="text-xl font-bold">Lime Web Admin</h1>
           <div className="flex items-center gap-4">
-            <span className="text-gray-300">Welcome, {user.username}</span>
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
+            <Link
+              href="/account/two-factor"
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🔑 Two-Factor
+            </Link>
+            <Link
+              href="/account/password"
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🔒 Password
+            </Link>
             <button
               onClick={logout}
               className="bg-red-600 hover:bg-red-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
@@ -120,13 +127,15 @@ export default function Home() {
         <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700 max-w-2xl">
           <h3 className="text-xl font-semibold mb-4 text-white">🔗 Orchestrator Sessions</h3>
           
-          <button
-            onClick={handleGetSessions}
-            disabled={sessionsLoading}
-            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors mb-4"
-          >
-            {sessionsLoading ? '🔄 Loading...' : '📡 Get Active Sessions'}
-          </button>
+          <PermissionGuard permission="sessions:view" mode="disable">
+            <button
+              onClick={handleGetSessions}
+              disabled={sessionsLoading}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors mb-4"
+            >
+              {sessionsLoading ? '🔄 Loading...' : '📡 Get Active Sessions'}
+            </button>
+          </PermissionGuard>
 
           {sessionsError && (
             <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded text-sm">
@@ -138,23 +147,30 @@ export default function Home() {
             <div className="bg-gray-700 p-4 rounded-md">
               <h4 className="text-sm font-semibold text-gray-300 mb-2">Active Sessions ({sessions.length}):</h4>
               <ul className="space-y-1 text-sm text-gray-400">
-                {sessions.map((session, index) => (
-                  <li key={index} className="flex items-center gap-2">
+                {sessions.map((session) => (
+                  <li key={session.id} className="flex items-center gap-2">
                     <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                    {session}
+                    {session.username} ({session.kind}) · {session.ipAddress}
                   </li>
                 ))}
               </ul>
+              <Link href="/sessions" className="inline-block mt-3 text-sm text-blue-400 hover:text-blue-300">
+                Manage all sessions →
+              </Link>
             </div>
           )}
 
           {!sessionsLoading && sessions.length === 0 && !sessionsError && (
             <div className="text-gray-400 text-sm italic">
-              Click "Get Active Sessions" to fetch current orchestrator sessions
+              Click &quot;Get Active Sessions&quot; to fetch current orchestrator sessions
             </div>
           )}
         </div>
 
+        <PermissionGuard permission="users:impersonate">
+          <ImpersonationPanel />
+        </PermissionGuard>
+
         <ol className="font-mono list-inside list-decimal text-sm/6 text-center sm:text-left text-gray-300">
           <li className="mb-2 tracking-[-.01em]">
             Check out the API service in{" "}
@@ -171,12 +187,22 @@ export default function Home() {
         </ol>
 
         <div className="flex gap-4 items-center flex-col sm:flex-row">
-          <Link
-            href="/world"
-            className="rounded-full border border-solid border-gray-600 transition-colors flex items-center justify-center bg-green-600 text-white gap-2 hover:bg-green-700 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5"
-          >
-            🌍 Game World Monitor
-          </Link>
+          <PermissionGuard permission="world:view">
+            <Link
+              href="/world"
+              className="rounded-full border border-solid border-gray-600 transition-colors flex items-center justify-center bg-green-600 text-white gap-2 hover:bg-green-700 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5"
+            >
+              🌍 Game World Monitor
+            </Link>
+          </PermissionGuard>
+          <PermissionGuard permission="users:view">
+            <Link
+              href="/users"
+              className="rounded-full border border-solid border-gray-600 transition-colors flex items-center justify-center bg-gray-700 text-white gap-2 hover:bg-gray-600 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5"
+            >
+              👥 Users
+            </Link>
+          </PermissionGuard>
           <Link
             href="/services/README.md"
             className="rounded-full border border-solid border-gray-600 transition-colors flex items-center justify-center bg-blue-600 text-white gap-2 hover:bg-blue-700 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5"
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { AuthService } from "@/services/auth/authService";
+import type { PasswordFieldErrors, PasswordFormError } from "@/services/auth/authService";
+import { routeConfig } from "@/services/auth/routes";
+import { usePasswordChecks } from "@/services/hooks/usePasswordChecks";
+import PasswordPolicyChecklist from "@/components/PasswordPolicyChecklist";
+
+const inputClassName = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400";
+
+// Target of the emailed reset link, /reset-password/<token>
+export default function ResetPasswordPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token || '';
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<PasswordFieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reset, setReset] = useState(false);
+
+  const { checks, acceptable } = usePasswordChecks(newPassword, { confirmPassword });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+    setIsSubmitting(true);
+
+    try {
+      await AuthService.resetPassword({ token, newPassword });
+      setReset(true);
+    } catch (err) {
+      setFieldErrors((err as PasswordFormError).formErrors || { form: 'Failed to reset password' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const linkError = fieldErrors.token;
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+      <div className="w-full max-w-md p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+        <h2 className="text-2xl font-bold mb-6 text-center text-white">🔑 Reset Password</h2>
+
+        {reset ? (
+          <p className="text-gray-300 text-center mb-6">
+            ✅ Your password has been reset. You can now log in with the new password.
+          </p>
+        ) : linkError ? (
+          <div className="mb-6 text-center">
+            <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+              {linkError}
+            </div>
+            <Link href="/forgot-password" className="text-blue-400 hover:text-blue-300">
+              Request a new reset link
+            </Link>
+          </div>
+        ) : (
+          <>
+            {fieldErrors.form && (
+              <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+                {fieldErrors.form}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="newPassword" className="block text-sm font-medium text-gray-300 mb-1">
+                  New password
+                </label>
+                <input
+                  type="password"
+                  id="newPassword"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  required
+                  disabled={isSubmitting}
+                />
+                {fieldErrors.newPassword && (
+                  <p className="mt-1 text-sm text-red-400">{fieldErrors.newPassword}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-1">
+                  Confirm new password
+                </label>
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClassName}
+                  autoComplete="new-password"
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <PasswordPolicyChecklist checks={checks} />
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !acceptable}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? '🔄 Saving...' : '💾 Set New Password'}
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="mt-4 pt-4 border-t border-gray-700 text-center text-sm">
+          <Link href={routeConfig.loginPath} className="text-blue-400 hover:text-blue-300">
+            ← Back to login
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { OrchestratorService, orchestratorQueryKeys } from "@/services/monitoring/orchestratorService";
+import type {
+  Session,
+  SessionKind,
+  SessionQuery,
+  SessionSortField,
+} from "@/services/monitoring/orchestratorService";
+import type { ApiError } from "@/services/api";
+import { handleApiError, isCancelledError } from "@/services/utils/apiHelpers";
+import { useMutation, usePaginatedQuery } from "@/services/hooks/useApi";
+import PermissionGuard from "@/components/PermissionGuard";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
+
+const PAGE_SIZE = 20;
+
+type SessionScope = 'mine' | SessionKind;
+
+const SCOPES: Array<{ value: SessionScope; label: string }> = [
+  { value: 'mine', label: '🧑‍💼 My Sessions' },
+  { value: 'player', label: '🎮 Player Sessions' },
+  { value: 'admin', label: '🛡️ Admin Sessions' },
+];
+
+const SORT_FIELDS: Array<{ value: SessionSortField; label: string }> = [
+  { value: 'lastActivityAt', label: 'Last activity' },
+  { value: 'startedAt', label: 'Started' },
+  { value: 'username', label: 'User' },
+  { value: 'ipAddress', label: 'IP address' },
+];
+
+const DEVICE_ICONS: Record<Session['device']['type'], string> = {
+  desktop: '🖥️',
+  mobile: '📱',
+  tablet: '📟',
+  unknown: '❔',
+};
+
+const describeDevice = (device: Session['device']): string => {
+  const parts = [device.client, device.browser, device.os].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Unknown device';
+};
+
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export default function SessionsPage() {
+  const { user, loading, logout } = useAuth();
+  const router = useRouter();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-xl">🔄 Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // RouteGuard redirects to login
+  }
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <header className="bg-gray-800 border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">🔗 Active Sessions</h1>
+          <div className="flex items-center gap-4">
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
+            <button
+              onClick={() => router.push('/')}
+              className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🏠 Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <SessionList userId={user.subject} onOwnSessionsRevoked={logout} />
+    </div>
+  );
+}
+
+interface SessionListProps {
+  userId: string;
+  onOwnSessionsRevoked: () => Promise<void>;
+}
+
+// Sessions of the selected scope, one page at a time. Changing the page, scope, search or
+// sort cancels the request of the previous one.
+function SessionList({ userId, onOwnSessionsRevoked }: SessionListProps) {
+  const [scope, setScope] = useState<SessionScope>('mine');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [sortBy, setSortBy] = useState<SessionSortField>('lastActivityAt');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+
+  const filters = useMemo((): Omit<SessionQuery, 'page' | 'limit'> => ({
+    search: appliedSearch || undefined,
+    sortBy,
+    sortOrder,
+    ...(scope === 'mine' ? { kind: 'admin', userId } : { kind: scope }),
+  }), [appliedSearch, sortBy, sortOrder, scope, userId]);
+
+  const fetchSessions = useCallback(
+    (page: number, limit: number, signal: AbortSignal) => (
+      OrchestratorService.getSessions({ ...filters, page, limit }, { signal })
+    ),
+    [filters]
+  );
+
+  const {
+    data,
+    loading: sessionsLoading,
+    error: sessionsError,
+    page,
+    fetchPage,
+    nextPage,
+    prevPage,
+    firstPage,
+  } = usePaginatedQuery(fetchSessions, 1, PAGE_SIZE, {
+    queryKey: orchestratorQueryKeys.sessionList(filters),
+  });
+
+  // New filters start again at the first page
+  const fetchedFilters = useRef(filters);
+  useEffect(() => {
+    if (fetchedFilters.current === filters) return;
+    fetchedFilters.current = filters;
+    firstPage().catch(() => undefined);
+  }, [filters, firstPage]);
+
+  // Every session list refetches once a revoke settled
+  const { execute: revokeSession } = useMutation(
+    (sessionId: string) => OrchestratorService.revokeSession(sessionId),
+    { invalidates: [orchestratorQueryKeys.sessions] }
+  );
+  const { execute: revokeUserSessions } = useMutation(
+    (sessionUserId: string) => OrchestratorService.revokeUserSessions(sessionUserId),
+    { invalidates: [orchestratorQueryKeys.sessions] }
+  );
+
+  const sessions = data?.sessions ?? [];
+  const total = data?.total ?? 0;
+  const error = revokeError || (sessionsError && !isCancelledError(sessionsError) ? handleApiError(sessionsError) : null);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedSearch(search.trim());
+  };
+
+  const handleSort = (field: SessionSortField) => {
+    if (field === sortBy) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(field);
+      setSortOrder(field === 'username' || field === 'ipAddress' ? 'asc' : 'desc');
+    }
+  };
+
+  // Revoking the session in use, or all sessions of the signed-in user, ends this login too
+  const revoke = async (key: string, endsOwnSession: boolean, action: () => Promise<unknown>) => {
+    setRevoking(key);
+    setRevokeError(null);
+
+    try {
+      await action();
+      if (endsOwnSession) {
+        await onOwnSessionsRevoked();
+      }
+    } catch (err) {
+      setRevokeError(handleApiError(err as ApiError));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeSession = (session: Session) => {
+    if (!window.confirm(`Revoke the session of ${session.username} from ${session.ipAddress}?`)) return;
+    revoke(session.id, !!session.current, () => revokeSession(session.id));
+  };
+
+  const handleRevokeUser = (session: Session) => {
+    if (!window.confirm(`Revoke all sessions of ${session.username}?`)) return;
+    revoke(
+      `user:${session.userId}`,
+      session.userId === userId,
+      () => revokeUserSessions(session.userId)
+    );
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="max-w-7xl mx-auto p-8">
+      {/* Filters */}
+      <div className="bg-gray-800 p-4 rounded-lg shadow-lg border border-gray-700 mb-6 flex flex-wrap items-center gap-4">
+        <div className="flex gap-2">
+          {SCOPES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                scope === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2 flex-1 min-w-[16rem]">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-white placeholder-gray-400"
+            placeholder="Search user, IP or device"
+            aria-label="Search sessions"
+          />
+          <button
+            type="submit"
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            🔍 Search
+          </button>
+        </form>
+
+        <button
+          onClick={() => fetchPage(page).catch(() => undefined)}
+          disabled={sessionsLoading}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          {sessionsLoading ? '🔄 Loading...' : '🔄 Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded text-sm">
+          Error: {error}
+        </div>
+      )}
+
+      {/* Sessions */}
+      <div className="bg-gray-800 rounded-lg shadow-lg border border-gray-700 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-700 text-gray-300 text-left">
+            <tr>
+              {SORT_FIELDS.map(({ value, label }) => (
+                <th key={value} className="p-3 font-semibold">
+                  <button onClick={() => handleSort(value)} className="hover:text-white">
+                    {label}
+                    {sortBy === value && (sortOrder === 'asc' ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+              <th className="p-3 font-semibold">Device</th>
+              <th className="p-3 font-semibold text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.map((session) => (
+              <tr key={session.id} className="border-t border-gray-700">
+                <td className="p-3 text-gray-300">{formatDate(session.lastActivityAt)}</td>
+                <td className="p-3 text-gray-300">{formatDate(session.startedAt)}</td>
+                <td className="p-3">
+                  <span className="text-white">{session.username}</span>
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 bg-green-800 text-green-200 rounded text-xs">This session</span>
+                  )}
+                </td>
+                <td className="p-3 font-mono text-gray-300">
+                  {session.ipAddress}
+                  {session.location && <span className="block text-xs text-gray-500">{session.location}</span>}
+                </td>
+                <td className="p-3 text-gray-300">
+                  {DEVICE_ICONS[session.device.type] || DEVICE_ICONS.unknown} {describeDevice(session.device)}
+                </td>
+                <td className="p-3 text-right whitespace-nowrap">
+                  <PermissionGuard permission="sessions:revoke" mode="disable">
+                    <button
+                      onClick={() => handleRevokeSession(session)}
+                      disabled={revoking !== null}
+                      className="bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed px-2 py-1 rounded-md text-xs font-medium transition-colors mr-2"
+                    >
+                      {revoking === session.id ? '🔄' : 'Revoke'}
+                    </button>
+                    <button
+                      onClick={() => handleRevokeUser(session)}
+                      disabled={revoking !== null}
+                      className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-2 py-1 rounded-md text-xs font-medium transition-colors"
+                    >
+                      {revoking === `user:${session.userId}` ? '🔄' : 'Revoke all for user'}
+                    </button>
+                  </PermissionGuard>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!sessionsLoading && sessions.length === 0 && !error && (
+          <div className="p-6 text-gray-400 text-sm italic text-center">No active sessions</div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center mt-4 text-sm text-gray-400">
+        <span>{total} session{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => prevPage().catch(() => undefined)}
+            disabled={page <= 1 || sessionsLoading}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md"
+          >
+            ← Previous
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            onClick={() => nextPage().catch(() => undefined)}
+            disabled={page >= totalPages || sessionsLoading}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md"
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { UserService, userQueryKeys } from "@/services/users/userService";
+import type { User } from "@/services/users/userService";
+import { usePaginatedQuery } from "@/services/hooks/useApi";
+import { handleApiError, isCancelledError } from "@/services/utils/apiHelpers";
+import PermissionGuard from "@/components/PermissionGuard";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
+import UserEditor from "@/components/UserEditor";
+
+const PAGE_SIZE = 20;
+
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+export default function UsersPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-xl">🔄 Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // RouteGuard redirects to login
+  }
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <header className="bg-gray-800 border-b border-gray-700 p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold">👥 Users</h1>
+          <div className="flex items-center gap-4">
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
+            <button
+              onClick={() => router.push('/')}
+              className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              🏠 Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <UserList />
+    </div>
+  );
+}
+
+// Users one page at a time, with the editor for creating and editing them. Saving
+// invalidates the user queries, so the list refetches by itself.
+function UserList() {
+  // null: editor closed, 'new': creating a user
+  const [editing, setEditing] = useState<User | 'new' | null>(null);
+
+  const fetchUsers = useCallback(
+    (page: number, limit: number, signal: AbortSignal) => UserService.getUsers({ page, limit }, { signal }),
+    []
+  );
+
+  const {
+    data,
+    loading: usersLoading,
+    error: usersError,
+    page,
+    nextPage,
+    prevPage,
+  } = usePaginatedQuery(fetchUsers, 1, PAGE_SIZE, {
+    queryKey: userQueryKeys.userList(),
+  });
+
+  const users = data?.users ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const error = usersError && !isCancelledError(usersError) ? handleApiError(usersError) : null;
+
+  return (
+    <div className="max-w-7xl mx-auto p-8 grid gap-6 lg:grid-cols-[1fr_24rem]">
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-sm text-gray-400">{total} user{total === 1 ? '' : 's'}</span>
+          <PermissionGuard permission="users:manage" mode="disable">
+            <button
+              onClick={() => setEditing('new')}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              ➕ New User
+            </button>
+          </PermissionGuard>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded text-sm">
+            Error: {error}
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg shadow-lg border border-gray-700 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-700 text-gray-300 text-left">
+              <tr>
+                <th className="p-3 font-semibold">Name</th>
+                <th className="p-3 font-semibold">Email</th>
+                <th className="p-3 font-semibold">Role</th>
+                <th className="p-3 font-semibold">Created</th>
+                <th className="p-3 font-semibold text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((listedUser) => (
+                <tr key={listedUser.id} className="border-t border-gray-700">
+                  <td className="p-3 text-white">{listedUser.name}</td>
+                  <td className="p-3 text-gray-300">{listedUser.email}</td>
+                  <td className="p-3 text-gray-300">{listedUser.role}</td>
+                  <td className="p-3 text-gray-300">{formatDate(listedUser.createdAt)}</td>
+                  <td className="p-3 text-right">
+                    <PermissionGuard permission="users:manage" mode="disable">
+                      <button
+                        onClick={() => setEditing(listedUser)}
+                        className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-2 py-1 rounded-md text-xs font-medium transition-colors"
+                      >
+                        ✏️ Edit
+                      </button>
+                    </PermissionGuard>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!usersLoading && users.length === 0 && !error && (
+            <div className="p-6 text-gray-400 text-sm italic text-center">No users</div>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="flex justify-end items-center gap-2 mt-4 text-sm text-gray-400">
+          <button
+            onClick={() => prevPage().catch(() => undefined)}
+            disabled={page <= 1 || usersLoading}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md"
+          >
+            ← Previous
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            onClick={() => nextPage().catch(() => undefined)}
+            disabled={page >= totalPages || usersLoading}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md"
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <UserEditor
+          // A fresh editor per user, so its fields start from that user
+          key={editing === 'new' ? 'new' : editing.id}
+          user={editing === 'new' ? undefined : editing}
+          onSaved={() => setEditing(null)}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
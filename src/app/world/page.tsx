@@ -3,117 +3,45 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-// Note: This requires @microsoft/signalr package to be installed
-// Run: npm install @microsoft/signalr
-import * as signalR from "@microsoft/signalr";
-
-interface GameState {
-  CurrentPhase: string;
-  PlayerCount: number;
-  GameStarted: boolean;
-  LastUpdated: string;
-}
+import { gameWorldService } from "@/services/signalr/gameWorldService";
+import type { GameState } from "@/services/signalr/gameWorldService";
+import BackendHealthIndicator from "@/components/BackendHealthIndicator";
 
 export default function WorldPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
-  const [connection, setConnection] = useState<signalR.HubConnection | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [connectionState, setConnectionState] = useState<string>('Disconnected');
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (!loading && !user) {
-      router.push('/login');
-    }
-  }, [loading, user, router]);
-
   useEffect(() => {
     if (!user || !user.isAuthenticated) return;
 
-    const connectToHub = async () => {
-      try {
-        // Get the JWT token from localStorage
-        const authTokens = localStorage.getItem('authTokens');
-        if (!authTokens) {
-          setError('No authentication token found');
-          return;
-        }
-
-        const tokens = JSON.parse(authTokens);
-        const accessToken = tokens.accessToken;
-
-        if (!accessToken) {
-          setError('No access token found');
-          return;
-        }
-
-        // Create SignalR connection with JWT authentication
-        const newConnection = new signalR.HubConnectionBuilder()
-          .withUrl("http://localhost:5002/hubs/gameworld", {
-            accessTokenFactory: () => accessToken
-          })
-          .withAutomaticReconnect()
-          .build();
-
-        // Set up event handlers
-        newConnection.on("GameStateUpdate", (gameStateData: GameState) => {
-          console.log('🎮 Game state update received:', gameStateData);
-          setGameState(gameStateData);
-        });
-
-        newConnection.onclose((error) => {
-          console.log('🔌 SignalR connection closed:', error);
-          setConnectionState('Disconnected');
-          if (error) {
-            setError(`Connection closed with error: ${error.message}`);
-          }
-        });
-
-        newConnection.onreconnecting((error) => {
-          console.log('🔄 SignalR reconnecting:', error);
-          setConnectionState('Reconnecting');
-        });
-
-        newConnection.onreconnected((connectionId) => {
-          console.log('✅ SignalR reconnected:', connectionId);
-          setConnectionState('Connected');
+    gameWorldService.setCallbacks(
+      (gameStateData) => setGameState(gameStateData),
+      (state) => {
+        setConnectionState(state);
+        if (state === 'Connected') {
           setError(null);
-        });
-
-        // Start the connection
-        setConnectionState('Connecting');
-        await newConnection.start();
-        setConnectionState('Connected');
-        setError(null);
-        console.log('🎯 Connected to GameWorldHub');
-
-        // Request initial game state
-        await newConnection.invoke("RequestGameState");
-
-        setConnection(newConnection);
-
-      } catch (err) {
-        console.error('❌ Failed to connect to GameWorldHub:', err);
-        setError(err instanceof Error ? err.message : 'Failed to connect to game world hub');
-        setConnectionState('Disconnected');
-      }
-    };
+        }
+      },
+      (message) => setError(message)
+    );
 
-    connectToHub();
+    gameWorldService.connect().catch(() => {
+      // Already reported through the error callback
+    });
 
     // Cleanup on unmount
     return () => {
-      if (connection) {
-        connection.stop();
-      }
+      gameWorldService.disconnect();
     };
   }, [user]);
 
   const handleRequestGameState = async () => {
-    if (connection && connection.state === signalR.HubConnectionState.Connected) {
+    if (gameWorldService.isConnected()) {
       try {
-        await connection.invoke("RequestGameState");
+        await gameWorldService.requestGameState();
       } catch (err) {
         console.error('Failed to request game state:', err);
         setError(err instanceof Error ? err.message : 'Failed to request game state');
@@ -130,7 +58,7 @@ export default function WorldPage() {
   }
 
   if (!user) {
-    return null; // Will redirect to login
+    return null; // RouteGuard redirects to login
   }
 
   return (
@@ -140,7 +68,8 @@ export default function WorldPage() {
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <h1 className="text-xl font-bold">🌍 Game World Monitor</h1>
           <div className="flex items-center gap-4">
-            <span className="text-gray-300">Welcome, {user.username}</span>
+            <BackendHealthIndicator />
+            <span className="text-gray-300">Welcome, {user.displayName}</span>
             <button
               onClick={() => router.push('/')}
               className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
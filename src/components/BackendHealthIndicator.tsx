@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { useBackendHealth } from '@/services/hooks/useBackendHealth';
+import type { BackendName } from '@/services/api';
+
+const BACKEND_LABELS: Record<BackendName, string> = {
+  main: 'Web server',
+  auth: 'Login server',
+  orchestrator: 'Orchestrator',
+};
+
+// Header chips for backends whose circuit breaker is not closed, nothing while all are healthy
+const BackendHealthIndicator: React.FC = () => {
+  const health = useBackendHealth();
+  const degraded = (Object.keys(health) as BackendName[]).filter(name => health[name] !== 'closed');
+
+  if (degraded.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {degraded.map(name => (
+        <span
+          key={name}
+          title={health[name] === 'open' ? 'Requests are paused until it responds again' : 'Checking whether it is back'}
+          className={`px-2 py-1 rounded-md text-xs font-medium ${
+            health[name] === 'open'
+              ? 'bg-red-900/50 border border-red-700 text-red-200'
+              : 'bg-yellow-900/50 border border-yellow-700 text-yellow-200'
+          }`}
+        >
+          {health[name] === 'open' ? '🔴' : '🟡'} {BACKEND_LABELS[name]} {health[name] === 'open' ? 'unavailable' : 'recovering'}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default BackendHealthIndicator;
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Covers the page while the session is locked for inactivity. The page stays mounted
+// underneath, so nothing is lost once the password is confirmed.
+const IdleLockScreen: React.FC = () => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const { user, locked, unlock, logout } = useAuth();
+
+  if (!user || !locked) {
+    return null;
+  }
+
+  const handleUnlock = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setError('');
+    setIsUnlocking(true);
+
+    try {
+      await unlock(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to unlock');
+    } finally {
+      setPassword('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gray-900/80 backdrop-blur-md flex items-center justify-center p-4">
+      <div className="w-full max-w-md p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+        <h2 className="text-2xl font-bold mb-2 text-center text-white">🔒 Session Locked</h2>
+        <p className="text-sm text-gray-400 mb-6 text-center">
+          Locked after a period of inactivity. Enter the password for {user.displayName} to continue.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400"
+            placeholder="Enter your password"
+            aria-label="Password"
+            autoComplete="current-password"
+            autoFocus
+            required
+            disabled={isUnlocking}
+          />
+          <button
+            type="submit"
+            disabled={isUnlocking}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isUnlocking ? '🔄 Unlocking...' : '🔓 Unlock'}
+          </button>
+        </form>
+
+        <button
+          onClick={logout}
+          disabled={isUnlocking}
+          className="w-full mt-4 text-sm text-gray-400 hover:text-gray-300 disabled:opacity-50"
+        >
+          Not you? Log out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IdleLockScreen;
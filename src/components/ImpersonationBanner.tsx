@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Shown on every page while a staff member is viewing the panel as a player
+const ImpersonationBanner: React.FC = () => {
+  const [isExiting, setIsExiting] = useState(false);
+  const { impersonation, stopImpersonation, refreshImpersonation } = useAuth();
+
+  // Drop the banner when the impersonation token expires
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const remaining = new Date(impersonation.expiresAt).getTime() - Date.now();
+    if (Number.isNaN(remaining)) return;
+
+    const timeout = setTimeout(refreshImpersonation, Math.max(0, remaining));
+    return () => clearTimeout(timeout);
+  }, [impersonation, refreshImpersonation]);
+
+  if (!impersonation) {
+    return null;
+  }
+
+  const handleExit = async (): Promise<void> => {
+    setIsExiting(true);
+    try {
+      await stopImpersonation();
+    } finally {
+      setIsExiting(false);
+    }
+  };
+
+  const { player } = impersonation;
+
+  return (
+    <div className="sticky top-0 z-40 bg-purple-900/95 border-b border-purple-700 text-purple-100 p-3">
+      <div className="max-w-7xl mx-auto flex justify-between items-center gap-4 text-sm">
+        <span>
+          🎭 Viewing as <strong>{player.displayName || player.username}</strong> ({player.id}).
+          Every action is recorded for audit.
+        </span>
+        <button
+          onClick={handleExit}
+          disabled={isExiting}
+          className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md font-medium transition-colors"
+        >
+          {isExiting ? '🔄 Exiting...' : '✖ Exit'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { handleApiError } from '@/services/utils/apiHelpers';
+import type { ApiError } from '@/services/api';
+
+// Lets support staff view the panel as a player, with the reason recorded for audit
+const ImpersonationPanel: React.FC = () => {
+  const [userId, setUserId] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+
+  const { impersonation, startImpersonation } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setError('');
+    setIsStarting(true);
+
+    try {
+      await startImpersonation(userId.trim(), reason.trim());
+      setUserId('');
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : handleApiError(err as ApiError));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700 max-w-2xl w-full">
+      <h3 className="text-xl font-semibold mb-2 text-white">🎭 View as Player</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        See the panel the way a player does. The reason and every request are recorded for audit.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="text"
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 text-white placeholder-gray-400"
+          placeholder="Player ID"
+          aria-label="Player ID"
+          required
+          disabled={isStarting}
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 text-white placeholder-gray-400"
+          placeholder="Reason, e.g. support ticket number"
+          aria-label="Reason"
+          required
+          disabled={isStarting}
+        />
+        <button
+          type="submit"
+          disabled={isStarting}
+          className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-md font-medium transition-colors"
+        >
+          {isStarting ? '🔄 Starting...' : impersonation ? '🎭 Switch Player' : '🎭 View as Player'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ImpersonationPanel;
@@ -1,25 +1,43 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
+import { oidcConfig } from '@/services/api';
+import { routeConfig } from '@/services/auth/routes';
+import { useFormErrors } from '@/services/hooks/useFormErrors';
+
+const LOGIN_FIELDS = ['username', 'password'] as const;
 
 const LoginForm: React.FC = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const loginErrors = useFormErrors({ fields: LOGIN_FIELDS }, 'login');
   
-  const { login, quickLogin } = useAuth();
+  const {
+    login,
+    quickLogin,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    ssoAvailable,
+    loginWithSso,
+  } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
     setError('');
+    loginErrors.clear();
     setIsSubmitting(true);
 
     try {
       await login({ username, password });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Login failed');
+      loginErrors.setFromError(err);
     } finally {
       setIsSubmitting(false);
     }
@@ -27,6 +45,7 @@ const LoginForm: React.FC = () => {
 
   const handleQuickLogin = async (): Promise<void> => {
     setError('');
+    loginErrors.clear();
     setIsSubmitting(true);
 
     try {
@@ -38,13 +57,124 @@ const LoginForm: React.FC = () => {
     }
   };
 
+  const handleSsoLogin = async (): Promise<void> => {
+    setError('');
+    loginErrors.clear();
+    setIsSubmitting(true);
+
+    try {
+      // Keep the returnTo of the login page across the round trip to the identity provider
+      const returnTo = new URLSearchParams(window.location.search).get(routeConfig.returnToParam);
+      await loginWithSso(returnTo || undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Single sign-on failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await verifyTwoFactor(code, useRecoveryCode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelVerify = (): void => {
+    cancelTwoFactor();
+    setCode('');
+    setUseRecoveryCode(false);
+    setPassword('');
+    setError('');
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <div className="max-w-md mx-auto mt-8 p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+        <h2 className="text-2xl font-bold mb-2 text-center text-white">🔑 Two-Factor Verification</h2>
+        <p className="text-sm text-gray-400 mb-6 text-center">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleVerify} className="space-y-4">
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-1">
+              {useRecoveryCode ? 'Recovery code' : 'Verification code'}
+            </label>
+            <input
+              type="text"
+              id="code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400 tracking-widest text-center font-mono"
+              placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              pattern={useRecoveryCode ? undefined : '[0-9 ]{6,7}'}
+              maxLength={useRecoveryCode ? 32 : 7}
+              required
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? '🔄 Verifying...' : '✅ Verify'}
+          </button>
+        </form>
+
+        <div className="mt-4 pt-4 border-t border-gray-700 flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError('');
+            }}
+            disabled={isSubmitting}
+            className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+          <button
+            type="button"
+            onClick={handleCancelVerify}
+            disabled={isSubmitting}
+            className="text-gray-400 hover:text-gray-300 disabled:opacity-50"
+          >
+            ← Back to login
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto mt-8 p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
       <h2 className="text-2xl font-bold mb-6 text-center text-white">🔐 Admin Login</h2>
       
-      {error && (
+      {(error || loginErrors.formError) && (
         <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
-          {error}
+          {error || loginErrors.formError}
         </div>
       )}
 
@@ -57,12 +187,19 @@ const LoginForm: React.FC = () => {
             type="text"
             id="username"
             value={username}
-            onChange={(e) => setUsername(e.target.value)}
+            onChange={(e) => {
+              setUsername(e.target.value);
+              loginErrors.clear('username');
+            }}
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400"
             placeholder="Enter your username"
             required
             disabled={isSubmitting}
+            {...loginErrors.fieldProps('username')}
           />
+          {loginErrors.errors.username && (
+            <p id={loginErrors.errorId('username')} className="mt-1 text-sm text-red-400">{loginErrors.errors.username}</p>
+          )}
         </div>
 
         <div>
@@ -73,12 +210,24 @@ const LoginForm: React.FC = () => {
             type="password"
             id="password"
             value={password}
-            onChange={(e) => setPassword(e.target.value)}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              loginErrors.clear('password');
+            }}
             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400"
             placeholder="Enter your password"
             required
             disabled={isSubmitting}
+            {...loginErrors.fieldProps('password')}
           />
+          {loginErrors.errors.password && (
+            <p id={loginErrors.errorId('password')} className="mt-1 text-sm text-red-400">{loginErrors.errors.password}</p>
+          )}
+          <div className="mt-1 text-right">
+            <Link href="/forgot-password" className="text-xs text-blue-400 hover:text-blue-300">
+              Forgot password?
+            </Link>
+          </div>
         </div>
 
         <button
@@ -90,18 +239,33 @@ const LoginForm: React.FC = () => {
         </button>
       </form>
 
-      <div className="mt-4 pt-4 border-t border-gray-700">
-        <button
-          onClick={handleQuickLogin}
-          disabled={isSubmitting}
-          className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        >
-          {isSubmitting ? '🔄 Logging in...' : '⚡ Quick Login (Test)'}
-        </button>
-        <p className="text-xs text-gray-400 mt-2 text-center">
-          Quick login uses default test credentials
-        </p>
-      </div>
+      {ssoAvailable && (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+          <button
+            onClick={handleSsoLogin}
+            disabled={isSubmitting}
+            className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            🏢 Sign in with {oidcConfig.providerName}
+          </button>
+        </div>
+      )}
+
+      {/* Written out inline so production builds drop the quick login entirely */}
+      {process.env.NEXT_PUBLIC_APP_ENV === 'development' && (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+          <button
+            onClick={handleQuickLogin}
+            disabled={isSubmitting}
+            className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? '🔄 Logging in...' : '⚡ Quick Login (Test)'}
+          </button>
+          <p className="text-xs text-gray-400 mt-2 text-center">
+            Quick login uses default test credentials
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import type { PasswordCheck } from '@/services/auth/passwordPolicy';
+
+interface PasswordPolicyChecklistProps {
+  checks: PasswordCheck[];
+}
+
+// Live feedback on the password policy while a new password is typed
+const PasswordPolicyChecklist: React.FC<PasswordPolicyChecklistProps> = ({ checks }) => {
+  return (
+    <ul className="space-y-1 text-sm" aria-live="polite">
+      {checks.map(({ rule, label, passed, unknown }) => (
+        <li
+          key={rule}
+          className={`flex items-center gap-2 ${passed ? 'text-green-400' : unknown ? 'text-yellow-400' : 'text-gray-400'}`}
+        >
+          <span aria-hidden>{passed ? '✅' : unknown ? '⏳' : '⬜'}</span>
+          <span>{label}</span>
+          <span className="sr-only">{passed ? '(met)' : unknown ? '(unknown)' : '(not met)'}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PasswordPolicyChecklist;
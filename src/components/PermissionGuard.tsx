@@ -0,0 +1,42 @@
+'use client';
+
+import React, { ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Permission } from '@/services/auth/permissions';
+
+interface PermissionGuardProps {
+  permission: Permission | Permission[];
+  // 'hide' removes the children, 'disable' renders them with every control disabled
+  mode?: 'hide' | 'disable';
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+const PermissionGuard: React.FC<PermissionGuardProps> = ({
+  permission,
+  mode = 'hide',
+  fallback = null,
+  children,
+}) => {
+  const { hasPermission } = useAuth();
+
+  if (hasPermission(permission)) {
+    return <>{children}</>;
+  }
+
+  if (mode === 'disable') {
+    return (
+      <fieldset
+        disabled
+        className="contents"
+        title="You do not have permission to perform this action."
+      >
+        {children}
+      </fieldset>
+    );
+  }
+
+  return <>{fallback}</>;
+};
+
+export default PermissionGuard;
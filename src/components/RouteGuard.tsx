@@ -0,0 +1,62 @@
+'use client';
+
+import React, { ReactNode, useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getRoutePermissions } from '@/services/auth/permissions';
+import {
+  routeConfig,
+  getRouteAccess,
+  getSafeReturnTo,
+  buildLoginPath,
+} from '@/services/auth/routes';
+
+interface RouteGuardProps {
+  children: ReactNode;
+}
+
+// Blocks routes listed in ROUTE_PERMISSIONS for users lacking the required permissions.
+// The middleware redirects on navigation, this follows logins and logouts that happen
+// while a page is open.
+const RouteGuard: React.FC<RouteGuardProps> = ({ children }) => {
+  const pathname = usePathname();
+  const router = useRouter();
+  const { user, loading, hasPermission } = useAuth();
+  const access = getRouteAccess(pathname);
+  const required = getRoutePermissions(pathname);
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (access === 'protected' && !user) {
+      router.replace(buildLoginPath(`${pathname}${window.location.search}`));
+    } else if (access === 'guest' && user) {
+      const returnTo = new URLSearchParams(window.location.search).get(routeConfig.returnToParam);
+      router.replace(getSafeReturnTo(returnTo));
+    }
+  }, [loading, user, access, pathname, router]);
+
+  if (loading || !user || required.length === 0 || hasPermission(required)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+      <div className="max-w-md p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700 text-center">
+        <h2 className="text-2xl font-bold mb-4 text-white">⛔ Access Denied</h2>
+        <p className="text-gray-300 mb-6">
+          You do not have permission to view this page.
+        </p>
+        <Link
+          href="/"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md font-medium transition-colors"
+        >
+          🏠 Back to Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default RouteGuard;
@@ -0,0 +1,67 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+const SessionExpiryWarning: React.FC = () => {
+  const [isExtending, setIsExtending] = useState(false);
+  const [error, setError] = useState('');
+
+  const {
+    sessionExpiring,
+    sessionTimeRemaining,
+    canExtendSession,
+    extendSession,
+    dismissSessionWarning,
+  } = useAuth();
+
+  if (!sessionExpiring || sessionTimeRemaining === null) {
+    return null;
+  }
+
+  const minutesRemaining = Math.max(1, Math.ceil(sessionTimeRemaining / 60000));
+
+  const handleExtend = async (): Promise<void> => {
+    setError('');
+    setIsExtending(true);
+
+    try {
+      await extendSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to extend session');
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-50 bg-yellow-900/90 border-b border-yellow-700 text-yellow-100 p-3">
+      <div className="max-w-7xl mx-auto flex justify-between items-center gap-4 text-sm">
+        <span>
+          ⏳ Your session expires in {minutesRemaining} minute{minutesRemaining === 1 ? '' : 's'}.
+          {!canExtendSession && ' Save your work and log in again to continue.'}
+          {error && <span className="ml-2 text-red-300">{error}</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          {canExtendSession && (
+            <button
+              onClick={handleExtend}
+              disabled={isExtending}
+              className="bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1 rounded-md font-medium transition-colors"
+            >
+              {isExtending ? '🔄 Extending...' : '🔁 Extend Session'}
+            </button>
+          )}
+          <button
+            onClick={dismissSessionWarning}
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-md font-medium transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryWarning;
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Asks for the password again before a privileged action (deploys, restarts, deleting users)
+const StepUpDialog: React.FC = () => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const { stepUpRequested, confirmStepUp, cancelStepUp } = useAuth();
+
+  if (!stepUpRequested) {
+    return null;
+  }
+
+  const handleConfirm = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setError('');
+    setIsConfirming(true);
+
+    try {
+      await confirmStepUp(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password confirmation failed');
+    } finally {
+      setPassword('');
+      setIsConfirming(false);
+    }
+  };
+
+  const handleCancel = (): void => {
+    setError('');
+    setPassword('');
+    cancelStepUp();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm p-6 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+        <h2 className="text-xl font-bold mb-2 text-white">🛡️ Confirm It&apos;s You</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          This action needs your password again.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400"
+            placeholder="Enter your password"
+            aria-label="Password"
+            autoComplete="current-password"
+            autoFocus
+            required
+            disabled={isConfirming}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={handleCancel}
+              disabled={isConfirming}
+              className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isConfirming}
+              className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isConfirming ? '🔄 Confirming...' : 'Confirm'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StepUpDialog;
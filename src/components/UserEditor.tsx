@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState } from 'react';
+import { UserService, userQueryKeys } from '@/services/users/userService';
+import type { User } from '@/services/users/userService';
+import { useMutation } from '@/services/hooks/useApi';
+import { useFormErrors } from '@/services/hooks/useFormErrors';
+
+type UserRole = User['role'];
+
+const USER_FIELDS = ['name', 'email', 'password', 'role'] as const;
+
+const inputClassName = "w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-white placeholder-gray-400";
+
+interface UserEditorProps {
+  user?: User; // Edits this user, creates a new one when left out
+  onSaved?: (user: User) => void;
+  onCancel?: () => void;
+}
+
+// Create or edit a user. Validation errors of the main server show next to their inputs.
+const UserEditor: React.FC<UserEditorProps> = ({ user, onSaved, onCancel }) => {
+  const [name, setName] = useState(user?.name ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>(user?.role ?? 'user');
+  const form = useFormErrors({ fields: USER_FIELDS }, user ? `user-${user.id}` : 'new-user');
+
+  const { execute: save, loading: saving } = useMutation(
+    () => (user
+      ? UserService.updateUser(user.id, { name, email, role })
+      : UserService.createUser({ name, email, password, role })),
+    {
+      invalidates: [userQueryKeys.users],
+      onSuccess: (saved) => {
+        if (saved) onSaved?.(saved);
+      },
+      onError: form.setFromError,
+    }
+  );
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    form.clear();
+    // Failures are shown through onError
+    await save().catch(() => undefined);
+  };
+
+  const fieldError = (field: typeof USER_FIELDS[number]): React.ReactNode => form.errors[field] && (
+    <p id={form.errorId(field)} className="mt-1 text-sm text-red-400">{form.errors[field]}</p>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 p-6 rounded-lg shadow-lg border border-gray-700 space-y-4">
+      <h2 className="text-lg font-semibold text-white">{user ? `✏️ Edit ${user.name}` : '👤 New User'}</h2>
+
+      {form.formError && (
+        <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded">
+          {form.formError}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="user-name" className="block text-sm font-medium text-gray-300 mb-1">
+          Name
+        </label>
+        <input
+          type="text"
+          id="user-name"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            form.clear('name');
+          }}
+          className={inputClassName}
+          required
+          disabled={saving}
+          {...form.fieldProps('name')}
+        />
+        {fieldError('name')}
+      </div>
+
+      <div>
+        <label htmlFor="user-email" className="block text-sm font-medium text-gray-300 mb-1">
+          Email
+        </label>
+        <input
+          type="email"
+          id="user-email"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            form.clear('email');
+          }}
+          className={inputClassName}
+          autoComplete="off"
+          required
+          disabled={saving}
+          {...form.fieldProps('email')}
+        />
+        {fieldError('email')}
+      </div>
+
+      {!user && (
+        <div>
+          <label htmlFor="user-password" className="block text-sm font-medium text-gray-300 mb-1">
+            Initial password
+          </label>
+          <input
+            type="password"
+            id="user-password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              form.clear('password');
+            }}
+            className={inputClassName}
+            autoComplete="new-password"
+            required
+            disabled={saving}
+            {...form.fieldProps('password')}
+          />
+          {fieldError('password')}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="user-role" className="block text-sm font-medium text-gray-300 mb-1">
+          Role
+        </label>
+        <select
+          id="user-role"
+          value={role}
+          onChange={(e) => {
+            setRole(e.target.value as UserRole);
+            form.clear('role');
+          }}
+          className={inputClassName}
+          disabled={saving}
+          {...form.fieldProps('role')}
+        >
+          <option value="user">User</option>
+          <option value="moderator">Moderator</option>
+          <option value="admin">Admin</option>
+        </select>
+        {fieldError('role')}
+      </div>
+
+      <div className="flex gap-2 pt-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? '🔄 Saving...' : user ? '💾 Save Changes' : '➕ Create User'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md disabled:opacity-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default UserEditor;
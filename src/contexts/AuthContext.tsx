@@ -1,17 +1,67 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User, LoginRequest, AuthService, ValidationResponse } from '@/services/auth/authService';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { User, LoginRequest, AuthService } from '@/services/auth/authService';
+import type { LoginResult } from '@/services/auth/authService';
+import { isTwoFactorChallenge } from '@/services/auth/twoFactor';
+import type { TwoFactorChallenge } from '@/services/auth/twoFactor';
+import { ImpersonationService } from '@/services/auth/impersonationService';
+import type { ImpersonationSession } from '@/services/auth/impersonationService';
+import { activityTracker } from '@/services/auth/activityTracker';
+import { sessionConfig } from '@/services/api';
+import type { ApiError, ApiResponse } from '@/services/api';
+import { hasAllPermissions } from '@/services/auth/permissions';
+import type { Permission } from '@/services/auth/permissions';
+
+// How often the session countdown and idle time are re-evaluated
+const SESSION_CHECK_INTERVAL = 15000;
+
+// Events that count as user activity for the idle lock
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  sessionExpiresAt: number | null;
+  sessionTimeRemaining: number | null;
+  sessionExpiring: boolean;
+  canExtendSession: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
   login: (credentials: LoginRequest) => Promise<void>;
   quickLogin: () => Promise<void>;
+  verifyTwoFactor: (code: string, recoveryCode?: boolean) => Promise<void>;
+  cancelTwoFactor: () => void;
+  ssoAvailable: boolean;
+  loginWithSso: (returnTo?: string) => Promise<void>;
+  completeSsoLogin: (params: URLSearchParams) => Promise<string>;
+  locked: boolean;
+  unlock: (password: string) => Promise<void>;
+  stepUpRequested: boolean;
+  confirmStepUp: (password: string) => Promise<void>;
+  cancelStepUp: () => void;
+  impersonation: ImpersonationSession | null;
+  startImpersonation: (userId: string, reason: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
+  refreshImpersonation: () => void;
   logout: () => Promise<void>;
   validateToken: () => Promise<void>;
+  extendSession: () => Promise<void>;
+  dismissSessionWarning: () => void;
+  hasPermission: (permission: Permission | Permission[]) => boolean;
 }
 
+// Turn a failed login call into an Error carrying a user-facing message, and the field
+// errors of the login server for the form's inputs
+const toLoginError = (error: unknown): Error & Pick<ApiError, 'fieldErrors'> => {
+  if (error instanceof Error) {
+    return error;
+  }
+  const apiError = error as ApiError;
+  return Object.assign(new Error(AuthService.getLoginErrorMessage(apiError)), {
+    fieldErrors: apiError.fieldErrors,
+  });
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = (): AuthContextType => {
@@ -29,15 +79,22 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [sessionTimeRemaining, setSessionTimeRemaining] = useState<number | null>(null);
+  const [sessionWarningDismissed, setSessionWarningDismissed] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [stepUpRequested, setStepUpRequested] = useState(false);
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(null);
+  // Settles the step-up prompt AuthService is waiting on
+  const stepUpResolver = useRef<(() => void) | null>(null);
 
   const validateToken = async (): Promise<void> => {
     try {
       const response = await AuthService.validateToken();
-      if (response.success && response.data) {
-        setUser({
-          username: response.data.username,
-          isAuthenticated: response.data.isAuthenticated,
-        });
+      const currentUser = AuthService.getCurrentUser();
+      if (response.success && response.data && currentUser) {
+        setUser(currentUser);
       } else {
         // Token is invalid or expired (401, etc.)
         console.log('Token validation failed: invalid or expired token');
@@ -55,57 +112,259 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Apply the result of a login call: either a session or a two-factor challenge
+  const completeLogin = (response: ApiResponse<LoginResult>, fallbackMessage: string): void => {
+    if (!response.success || !response.data) {
+      throw new Error(response.message || fallbackMessage);
+    }
+
+    if (isTwoFactorChallenge(response.data)) {
+      setTwoFactorChallenge(response.data);
+      return;
+    }
+
+    // Set user state from the claims of the issued token
+    setTwoFactorChallenge(null);
+    setUser(AuthService.getCurrentUser());
+  };
+
   const login = async (credentials: LoginRequest): Promise<void> => {
     try {
       setLoading(true);
-      const response = await AuthService.login(credentials);
-      if (response.success && response.data) {
-        // Set user state directly from login response
-        setUser({
-          username: credentials.username,
-          isAuthenticated: true,
-        });
-        setLoading(false);
-      } else {
-        setLoading(false);
-        throw new Error(response.message || 'Login failed');
-      }
+      completeLogin(await AuthService.login(credentials), 'Login failed');
     } catch (error) {
+      throw toLoginError(error);
+    } finally {
       setLoading(false);
-      throw error;
     }
   };
 
   const quickLogin = async (): Promise<void> => {
     try {
       setLoading(true);
-      const response = await AuthService.quickLogin();
-      
-      if (response.success && response.data) {
-        // Set user state directly from quick login response
-        setUser({
-          username: 'testuser', // Default quick login username
-          isAuthenticated: true,
-        });
-        setLoading(false);
-      } else {
-        setLoading(false);
-        throw new Error(response.message || 'Quick login failed');
+      completeLogin(await AuthService.quickLogin(), 'Quick login failed');
+    } catch (error) {
+      throw toLoginError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyTwoFactor = async (code: string, recoveryCode: boolean = false): Promise<void> => {
+    if (!twoFactorChallenge) {
+      throw new Error('There is no login waiting for a verification code');
+    }
+
+    try {
+      setLoading(true);
+      const response = await AuthService.verifyTwoFactor({
+        challengeId: twoFactorChallenge.challengeId,
+        code: code.replace(/\s/g, ''),
+        recoveryCode,
+      });
+      completeLogin(response, 'Verification failed');
+    } catch (error) {
+      const apiError = error as ApiError;
+      // An expired or exhausted challenge can't be retried, start over from the password
+      if (apiError.code === 'CHALLENGE_EXPIRED' || apiError.status === 423) {
+        setTwoFactorChallenge(null);
       }
+      throw toLoginError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = (): void => {
+    setTwoFactorChallenge(null);
+  };
+
+  const loginWithSso = async (returnTo?: string): Promise<void> => {
+    try {
+      await AuthService.beginSsoLogin(returnTo);
+    } catch (error) {
+      throw toLoginError(error);
+    }
+  };
+
+  // Returns the path to continue to once the session is started
+  const completeSsoLogin = async (params: URLSearchParams): Promise<string> => {
+    try {
+      setLoading(true);
+      const returnTo = await AuthService.completeSsoLogin(params);
+      setUser(AuthService.getCurrentUser());
+      return returnTo;
     } catch (error) {
+      throw toLoginError(error);
+    } finally {
       setLoading(false);
-      throw error;
     }
   };
 
+  // Confirm the password, throws an Error with a user-facing message when it's refused
+  const reauthenticate = async (password: string): Promise<void> => {
+    try {
+      const response = await AuthService.reauthenticate(password);
+      if (!response.success) {
+        throw new Error(response.message || 'Password confirmation failed');
+      }
+    } catch (error) {
+      throw toLoginError(error);
+    }
+  };
+
+  const unlock = async (password: string): Promise<void> => {
+    await reauthenticate(password);
+    setLocked(false);
+  };
+
+  const settleStepUp = (): void => {
+    setStepUpRequested(false);
+    stepUpResolver.current?.();
+    stepUpResolver.current = null;
+  };
+
+  const confirmStepUp = async (password: string): Promise<void> => {
+    await reauthenticate(password);
+    settleStepUp();
+  };
+
+  const cancelStepUp = (): void => {
+    settleStepUp();
+  };
+
+  const startImpersonation = async (userId: string, reason: string): Promise<void> => {
+    const response = await ImpersonationService.start({ userId, reason });
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to view as player');
+    }
+  };
+
+  const stopImpersonation = async (): Promise<void> => {
+    await ImpersonationService.stop();
+  };
+
+  // Re-read the impersonation, drops it once its token expired
+  const refreshImpersonation = useCallback((): void => {
+    setImpersonation(ImpersonationService.getCurrent());
+  }, []);
+
   const logout = async (): Promise<void> => {
     await AuthService.logout();
     setUser(null);
+    setLocked(false);
+    settleStepUp();
   };
 
+  const extendSession = async (): Promise<void> => {
+    const tokens = await AuthService.refreshTokens();
+    if (!tokens) {
+      throw new Error('Unable to extend session');
+    }
+  };
+
+  const dismissSessionWarning = (): void => {
+    setSessionWarningDismissed(true);
+  };
+
+  const hasPermission = (permission: Permission | Permission[]): boolean => {
+    return !!user && hasAllPermissions(user.permissions, permission);
+  };
+
+  // Keep the expiry in sync with logins, refreshes and logouts from anywhere in the app,
+  // and follow the session when it changes in another tab
+  useEffect(() => {
+    return AuthService.subscribe((event) => {
+      setSessionExpiresAt(AuthService.getSessionExpiry());
+      setSessionWarningDismissed(false);
+
+      if (!event.remote) return;
+      if (event.type === 'logout') {
+        setUser(null);
+      } else if (event.type === 'login') {
+        validateToken();
+      }
+    });
+  }, []);
+
+  // Count down to expiry and log out once it passes
+  useEffect(() => {
+    if (!user || sessionExpiresAt === null) {
+      setSessionTimeRemaining(null);
+      return;
+    }
+
+    const checkSession = (): void => {
+      const remaining = sessionExpiresAt - Date.now();
+      if (remaining <= 0) {
+        console.log('Session expired, logging out');
+        AuthService.logout();
+        setUser(null);
+        return;
+      }
+      setSessionTimeRemaining(remaining);
+    };
+
+    checkSession();
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [user, sessionExpiresAt]);
+
+  // Lock the UI after a period without activity in any tab. The page stays mounted underneath.
+  useEffect(() => {
+    if (!user || locked || sessionConfig.idleLockTimeout <= 0) return;
+
+    // Signing in or unlocking counts as activity
+    activityTracker.record();
+    const recordActivity = (): void => activityTracker.record();
+
+    const checkIdle = (): void => {
+      if (activityTracker.isIdle(sessionConfig.idleLockTimeout)) {
+        AuthService.setLocked(true);
+        setLocked(true);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    const interval = setInterval(checkIdle, SESSION_CHECK_INTERVAL);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+      clearInterval(interval);
+    };
+  }, [user, locked]);
+
+  // Follow locks and unlocks from other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent): void => {
+      if (event.key === 'sessionLocked') {
+        setLocked(AuthService.isLocked());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Follow impersonation starts, exits and expiry
+  useEffect(() => {
+    return ImpersonationService.subscribe(setImpersonation);
+  }, []);
+
+  // Ask for the password when a privileged action needs step-up
+  useEffect(() => {
+    AuthService.setStepUpPrompt(() => new Promise<void>((resolve) => {
+      stepUpResolver.current = resolve;
+      setStepUpRequested(true);
+    }));
+    return () => AuthService.setStepUpPrompt();
+  }, []);
+
   useEffect(() => {
     // Initialize auth state from localStorage
     AuthService.initializeAuth();
+    setSessionExpiresAt(AuthService.getSessionExpiry());
+    setLocked(AuthService.isLocked());
+    ImpersonationService.initialize();
+    setImpersonation(ImpersonationService.getCurrent());
     
     if (AuthService.isAuthenticated()) {
       validateToken();
@@ -117,10 +376,34 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     user,
     loading,
+    sessionExpiresAt,
+    sessionTimeRemaining,
+    sessionExpiring: sessionTimeRemaining !== null &&
+      sessionTimeRemaining <= sessionConfig.warningLeadTime &&
+      !sessionWarningDismissed,
+    canExtendSession: AuthService.canRefreshSession(),
+    twoFactorChallenge,
     login,
     quickLogin,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    ssoAvailable: AuthService.isSsoAvailable(),
+    loginWithSso,
+    completeSsoLogin,
+    locked,
+    unlock,
+    stepUpRequested,
+    confirmStepUp,
+    cancelStepUp,
+    impersonation,
+    startImpersonation,
+    stopImpersonation,
+    refreshImpersonation,
     logout,
     validateToken,
+    extendSession,
+    dismissSessionWarning,
+    hasPermission,
   };
 
   return (
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  routeConfig,
+  getRouteAccess,
+  getSafeReturnTo,
+  buildLoginPath,
+  isSessionCookieValid,
+} from '@/services/auth/routes';
+
+// Redirect before render based on the session cookie, so protected pages never flash
+export function middleware(request: NextRequest): NextResponse {
+  const { pathname, search, searchParams } = request.nextUrl;
+  const access = getRouteAccess(pathname);
+  const hasSession = isSessionCookieValid(request.cookies.get(routeConfig.sessionCookieName)?.value);
+
+  if (access === 'protected' && !hasSession) {
+    return NextResponse.redirect(new URL(buildLoginPath(`${pathname}${search}`), request.url));
+  }
+
+  if (access === 'guest' && hasSession) {
+    const returnTo = getSafeReturnTo(searchParams.get(routeConfig.returnToParam));
+    return NextResponse.redirect(new URL(returnTo, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip API routes, Next.js internals and static files
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};
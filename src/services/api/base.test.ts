@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiService } from './base';
+
+const createService = (): ApiService => new ApiService({
+  baseURL: 'https://api.test',
+  circuitBreaker: false,
+  retryPolicy: { maxAttempts: 3, baseDelay: 10000, jitter: false },
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('ApiService', () => {
+  it('passes a missing path param through the onError interceptors', async () => {
+    vi.stubGlobal('fetch', vi.fn());
+    const service = createService();
+    const onError = vi.fn(error => error);
+    service.addInterceptor({ onError });
+
+    await expect(service.get('/servers/:id', { pathParams: {} })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_REQUEST' }), expect.anything());
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('runs the onRequest and onResponse interceptors in the order they were added', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response('ok', { status: 200 })));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+    const calls: string[] = [];
+    ['first', 'second'].forEach((name) => {
+      service.addInterceptor({
+        onRequest: (context) => {
+          calls.push(`${name}:request`);
+          return { ...context, options: { ...context.options, headers: { ...context.options.headers, 'X-Trace': name } } };
+        },
+        onResponse: (response) => {
+          calls.push(`${name}:response`);
+          return { ...response, message: name };
+        },
+      });
+    });
+
+    const response = await service.get('/servers');
+
+    expect(calls).toEqual(['first:request', 'second:request', 'first:response', 'second:response']);
+    expect(response.message).toBe('second');
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['X-Trace']).toBe('second');
+  });
+
+  it('skips fetch when an onRequest interceptor returns a response', async () => {
+    vi.stubGlobal('fetch', vi.fn());
+    const service = createService();
+    const later = vi.fn(context => context);
+    const onResponse = vi.fn(response => response);
+    service.addInterceptor({ onRequest: () => ({ data: ['cached'], status: 200, success: true }) });
+    service.addInterceptor({ onRequest: later, onResponse });
+
+    await expect(service.get('/servers')).resolves.toMatchObject({ data: ['cached'] });
+    expect(fetch).not.toHaveBeenCalled();
+    expect(later).not.toHaveBeenCalled();
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('recovers the call when an onError interceptor returns a response', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response('', { status: 404 }))));
+    const service = createService();
+    const later = vi.fn(error => error);
+    service.addInterceptor({
+      onError: error => (error.status === 404 ? { data: [], status: 200, success: true } : error),
+    });
+    service.addInterceptor({ onError: later });
+
+    await expect(service.get('/servers')).resolves.toEqual({ data: [], status: 200, success: true });
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('cancels the retry backoff when the signal is aborted', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn().mockResolvedValue(new Response('', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const request = createService().get('/servers', { signal: controller.signal });
+    const rejection = expect(request).rejects.toMatchObject({ code: 'CANCELLED' });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await rejection;
+    expect(vi.getTimerCount()).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives the refresh handler the access token of the failed request', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 401 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+    service.setAuthTokens({ accessToken: 'old', refreshToken: 'refresh' });
+    const refresh = vi.fn(async () => {
+      service.setAuthTokens({ accessToken: 'new', refreshToken: 'refresh' });
+      return { accessToken: 'new' };
+    });
+    service.setTokenRefreshHandler(refresh);
+
+    await expect(service.get('/servers')).resolves.toMatchObject({ data: 'ok' });
+    expect(refresh).toHaveBeenCalledWith('old');
+    const [, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer new');
+  });
+
+  it('leaves the Content-Type of form bodies to fetch', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response('ok', { status: 200 })));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+
+    await service.post('/token', new URLSearchParams({ grant_type: 'refresh_token' }));
+    await service.post('/users', { name: 'Jane' });
+
+    const [[, formInit], [, jsonInit]] = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(formInit.headers).not.toHaveProperty('Content-Type');
+    expect(formInit.body).toBeInstanceOf(URLSearchParams);
+    expect(new Request('https://api.test/token', formInit).headers.get('content-type'))
+      .toBe('application/x-www-form-urlencoded;charset=UTF-8');
+    expect(jsonInit.headers).toHaveProperty('Content-Type', 'application/json');
+    expect(jsonInit.body).toBe('{"name":"Jane"}');
+  });
+});
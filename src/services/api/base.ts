@@ -3,26 +3,80 @@ import {
   ApiError, 
   ApiServiceConfig, 
   RequestOptions,
-  AuthTokens 
+  RequestContext,
+  ApiInterceptor,
+  AuthTokens,
+  AuthMode,
+  TokenRefreshHandler,
+  HttpCacheMode,
+  RequestConfig,
+  RetryContext,
+  RetryPolicy,
+  CircuitState,
+  SchemaValidation
 } from './types';
+import { HttpCache, type HttpCacheEntry } from './httpCache';
+import { CircuitBreaker, type CircuitListener } from './circuitBreaker';
+import { decodeWith, type Schema } from './schema';
+import { parseFieldErrors, parseProblemDetails } from './problemDetails';
+import { buildRequestURL } from './url';
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_METHODS,
+  createIdempotencyKey,
+  getRetryDelay,
+  isRetryableByDefault,
+  parseRetryAfter,
+} from './retryPolicy';
+
+// Distinguish a synthetic response returned by an interceptor from a rewritten request/error
+const isApiResponse = (value: unknown): value is ApiResponse<unknown> => {
+  return typeof value === 'object' && value !== null && 'success' in value && 'status' in value;
+};
+
+const isApiError = (value: unknown): value is ApiError => {
+  return typeof value === 'object' && value !== null &&
+    'message' in value && 'status' in value && !('success' in value);
+};
 
 export class ApiService {
+  private name: string;
   private baseURL: string;
   private timeout: number;
   private defaultHeaders: Record<string, string>;
-  private retries: number;
-  private retryDelay: number;
+  private retryPolicy: RetryPolicy & typeof DEFAULT_RETRY_POLICY;
+  private authMode: AuthMode;
+  private credentials?: RequestCredentials;
   private authTokens: AuthTokens | null = null;
+  private tokenRefreshHandler?: TokenRefreshHandler;
+  private interceptors: ApiInterceptor[] = [];
+  private requestInterceptor?: ApiInterceptor;
+  private responseInterceptor?: ApiInterceptor;
+  private httpCache: HttpCache;
+  private revalidations = new Map<string, Promise<unknown>>();
+  private circuitBreaker: CircuitBreaker | null;
+  private schemaValidation: SchemaValidation;
 
   constructor(config: ApiServiceConfig) {
+    this.name = config.name || config.baseURL;
     this.baseURL = config.baseURL;
     this.timeout = config.timeout || 10000;
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       ...config.defaultHeaders,
     };
-    this.retries = config.retries || 3;
-    this.retryDelay = config.retryDelay || 1000;
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: config.retries || DEFAULT_RETRY_POLICY.maxAttempts,
+      baseDelay: config.retryDelay || DEFAULT_RETRY_POLICY.baseDelay,
+      ...config.retryPolicy,
+    };
+    this.authMode = config.authMode || 'bearer';
+    this.credentials = config.credentials;
+    this.httpCache = new HttpCache(config.httpCache);
+    this.circuitBreaker = config.circuitBreaker === false ? null : new CircuitBreaker(config.circuitBreaker);
+    this.schemaValidation = config.schemaValidation || 'strict';
   }
 
   // Set authentication tokens
@@ -40,6 +94,36 @@ export class ApiService {
     return this.authTokens;
   }
 
+  // Get how this service authenticates its requests
+  getAuthMode(): AuthMode {
+    return this.authMode;
+  }
+
+  // Drop the cached responses, they belong to the current session
+  clearCache(): void {
+    this.httpCache.clear();
+  }
+
+  // State of the circuit breaker, always closed when the breaker is disabled
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker?.getState() ?? 'closed';
+  }
+
+  // Subscribe to circuit breaker state changes, returns an unsubscribe function
+  subscribeCircuit(listener: CircuitListener): () => void {
+    return this.circuitBreaker?.subscribe(listener) ?? ((): void => undefined);
+  }
+
+  // Set the request run as the half-open trial, e.g. a health check
+  setCircuitProbe(probe?: () => Promise<unknown>): void {
+    this.circuitBreaker?.setProbe(probe);
+  }
+
+  // Set the handler used to refresh tokens when a request fails with 401
+  setTokenRefreshHandler(handler?: TokenRefreshHandler): void {
+    this.tokenRefreshHandler = handler;
+  }
+
   // Build complete URL
   private buildURL(endpoint: string): string {
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
@@ -51,8 +135,8 @@ export class ApiService {
   private buildHeaders(customHeaders?: Record<string, string>): Record<string, string> {
     const headers = { ...this.defaultHeaders, ...customHeaders };
     
-    // Add authentication header if tokens are available
-    if (this.authTokens?.accessToken) {
+    // Add authentication header if tokens are available (the proxy adds it in cookie mode)
+    if (this.authMode === 'bearer' && this.authTokens?.accessToken) {
       const tokenType = this.authTokens.tokenType || 'Bearer';
       headers.Authorization = `${tokenType} ${this.authTokens.accessToken}`;
     }
@@ -70,7 +154,7 @@ export class ApiService {
       };
     }
 
-    const errorWithResponse = error as { response?: { status: number; data?: unknown } };
+    const errorWithResponse = error as { response?: { status: number; data?: unknown; headers?: Headers } };
     if (!errorWithResponse.response) {
       return {
         message: (error as Error).message || 'Network error',
@@ -79,36 +163,207 @@ export class ApiService {
       };
     }
 
-    const responseData = errorWithResponse.response.data as { message?: string; code?: string } | undefined;
+    const { data, headers } = errorWithResponse.response;
+    const responseData = data as { message?: string; code?: string } | undefined;
+    const problem = parseProblemDetails(data, headers?.get('content-type'));
+    const fieldErrors = parseFieldErrors(data);
     return {
-      message: responseData?.message || (error as Error).message || 'API Error',
-      status: errorWithResponse.response.status || 500,
+      message: responseData?.message || problem?.detail || problem?.title || (error as Error).message || 'API Error',
+      status: errorWithResponse.response.status || problem?.status || 500,
       code: responseData?.code || 'API_ERROR',
-      details: errorWithResponse.response.data,
+      details: data,
+      ...(problem ? { problem } : {}),
+      ...(fieldErrors ? { fieldErrors } : {}),
     };
   }
 
-  // Sleep utility for retries
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Error for a request its caller aborted, the UI ignores it
+  private cancelledError(): ApiError {
+    return {
+      message: 'Request cancelled',
+      status: 0,
+      code: 'CANCELLED',
+    };
+  }
+
+  // Cache mode of a request, only GET requests are cached
+  private getCacheMode(options: RequestOptions): HttpCacheMode | null {
+    const cache = options.config?.cache;
+    if ((options.method || 'GET') !== 'GET' || !cache) {
+      return null;
+    }
+    return cache === true ? 'validate' : cache;
+  }
+
+  // Responses differ per URL and per request headers (e.g. impersonation). Authorization is
+  // left out, the cache is cleared with the session.
+  private getCacheKey(url: string, options: RequestOptions): string {
+    const headers = { ...options.headers, ...options.config?.headers };
+    return `${this.buildURL(url)} ${JSON.stringify(headers)}`;
+  }
+
+  private cachedResponse<T>(entry: HttpCacheEntry): ApiResponse<T> {
+    return {
+      data: entry.data as T,
+      status: entry.status,
+      success: true,
+      message: entry.message,
+    };
+  }
+
+  // Validate a cached response in the background, once per key at a time
+  private revalidate(url: string, options: RequestOptions, cacheKey: string): void {
+    if (this.revalidations.has(cacheKey)) {
+      return;
+    }
+
+    const config = { ...options.config, cache: 'validate' as const, signal: undefined };
+    const revalidation = this.makeRequest(url, { ...options, config })
+      .catch((error) => {
+        console.warn('Background revalidation failed:', error);
+      })
+      .finally(() => {
+        this.revalidations.delete(cacheKey);
+      });
+    this.revalidations.set(cacheKey, revalidation);
+  }
+
+  // Fill in the path params and query string of a request, the pipeline sees the final url
+  private withRequestURL(url: string, options: RequestOptions): RequestContext {
+    if (!options.config?.params && !options.config?.pathParams) {
+      return { url, options };
+    }
+
+    const { params, pathParams, ...config } = options.config;
+    return {
+      url: buildRequestURL(url, params, pathParams),
+      options: { ...options, config },
+    };
+  }
+
+  // Retry policy of a request, its config overrides the service's policy
+  private getRetryPolicy(config?: RequestConfig): RetryPolicy & typeof DEFAULT_RETRY_POLICY {
+    return {
+      ...this.retryPolicy,
+      ...(config?.retries ? { maxAttempts: config.retries } : {}),
+      ...config?.retryPolicy,
+    };
+  }
+
+  // Give an opted in request its Idempotency-Key, generated once so every retry repeats it
+  private withIdempotencyKey(options: RequestOptions): RequestOptions {
+    const idempotencyKey = options.config?.idempotencyKey;
+    if (!idempotencyKey) {
+      return options;
+    }
+
+    return {
+      ...options,
+      headers: {
+        ...options.headers,
+        [IDEMPOTENCY_KEY_HEADER]: idempotencyKey === true ? createIdempotencyKey() : idempotencyKey,
+      },
+    };
+  }
+
+  // Error for a request refused while the circuit is open. Not retried, the backend is known to be down.
+  private circuitOpenError(): ApiError {
+    return {
+      message: `${this.name} is unavailable, trying again shortly`,
+      status: 503,
+      code: 'CIRCUIT_OPEN',
+    };
+  }
+
+  // Check the response data against the request's schema. The coerced data replaces it, or the
+  // request fails with DECODE_ERROR, unless drift is only logged (warn, development builds).
+  private decodeResponse(response: ApiResponse<unknown>, responseSchema: Schema<unknown>, url: string): ApiResponse<unknown> {
+    const { value, issues } = decodeWith(responseSchema, response.data);
+    if (issues.length === 0) {
+      return { ...response, data: value };
+    }
+
+    if (this.schemaValidation === 'warn' && process.env.NODE_ENV === 'development') {
+      console.warn(`${this.name} ${url} doesn't match its schema:`, issues);
+      return { ...response, data: value };
+    }
+
+    const error: ApiError = {
+      message: `Unexpected response from ${this.name}: ${issues.slice(0, 5).map(issue => issue.path).join(', ')}${
+        issues.length > 5 ? ` and ${issues.length - 5} more` : ''
+      }`,
+      status: response.status,
+      code: 'DECODE_ERROR',
+      details: { url, issues },
+    };
+    throw error;
+  }
+
+  // Sleep utility for retries, aborting the signal ends it with a CANCELLED error
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   // Core request method with retry logic
   private async makeRequest<T>(
     url: string, 
     options: RequestOptions = {},
-    attempt: number = 1
+    attempt: number = 1,
+    refreshed: boolean = false
   ): Promise<ApiResponse<T>> {
     const { method = 'GET', headers, body, config } = options;
     const fullURL = this.buildURL(url);
-    const requestHeaders = this.buildHeaders(headers);
+    const requestHeaders = this.buildHeaders({ ...headers, ...config?.headers });
+    const sentAccessToken = this.authMode === 'bearer' ? this.authTokens?.accessToken : undefined;
+    const signal = config?.signal;
 
-    // Create abort controller for timeout
+    if (signal?.aborted) {
+      throw this.cancelledError();
+    }
+
+    const cacheMode = this.getCacheMode(options);
+    const cacheKey = cacheMode ? this.getCacheKey(url, options) : '';
+    const cached = cacheMode ? this.httpCache.get(cacheKey) : null;
+
+    if (cached && cacheMode === 'stale-while-revalidate' && attempt === 1 && !refreshed) {
+      this.revalidate(url, options, cacheKey);
+      return this.cachedResponse<T>(cached);
+    }
+
+    // Conditional request, the server answers 304 when the cached response is still current
+    if (cached?.etag) {
+      requestHeaders['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      requestHeaders['If-Modified-Since'] = cached.lastModified;
+    }
+
+    if (this.circuitBreaker && !this.circuitBreaker.allowRequest()) {
+      throw this.circuitOpenError();
+    }
+
+    // Create abort controller for timeout, also aborted along with the caller's signal
     const controller = new AbortController();
     const timeoutId = setTimeout(
       () => controller.abort(), 
       config?.timeout || this.timeout
     );
+    const abortRequest = (): void => controller.abort();
+    signal?.addEventListener('abort', abortRequest, { once: true });
 
     try {
       const fetchOptions: RequestInit = {
@@ -117,9 +372,17 @@ export class ApiService {
         signal: controller.signal,
       };
 
+      if (this.credentials) {
+        fetchOptions.credentials = this.credentials;
+      }
+
       // Add body for non-GET requests
       if (body && method !== 'GET') {
-        if (typeof body === 'object' && !(body instanceof FormData)) {
+        if (body instanceof FormData || body instanceof URLSearchParams) {
+          // fetch sets the multipart boundary or form-urlencoded type itself
+          delete requestHeaders['Content-Type'];
+          fetchOptions.body = body;
+        } else if (typeof body === 'object') {
           fetchOptions.body = JSON.stringify(body);
         } else {
           fetchOptions.body = body as BodyInit;
@@ -129,10 +392,23 @@ export class ApiService {
       const response = await fetch(fullURL, fetchOptions);
       clearTimeout(timeoutId);
 
+      // Any answer below 500 shows the backend is up
+      if (response.status >= 500) {
+        this.circuitBreaker?.recordFailure();
+      } else {
+        this.circuitBreaker?.recordSuccess();
+      }
+
+      if (response.status === 304 && cached) {
+        this.httpCache.touch(cacheKey);
+        return this.cachedResponse<T>(cached);
+      }
+
       let responseData;
       const contentType = response.headers.get('content-type');
       
-      if (contentType && contentType.includes('application/json')) {
+      // Also application/problem+json and other +json types
+      if (contentType && /application\/([\w.-]+\+)?json/.test(contentType)) {
         responseData = await response.json();
       } else {
         responseData = await response.text();
@@ -140,43 +416,94 @@ export class ApiService {
 
       if (!response.ok) {
         const error = new Error(`HTTP ${response.status}`) as Error & {
-          response: { status: number; data: unknown }
+          response: { status: number; data: unknown; headers: Headers }
         };
         error.response = {
           status: response.status,
           data: responseData,
+          headers: response.headers,
         };
         throw error;
       }
 
+      const message = (responseData as { message?: string })?.message;
+      if (cacheMode) {
+        const etag = response.headers.get('etag') || undefined;
+        const lastModified = response.headers.get('last-modified') || undefined;
+        // Without validators a response can only be reused for stale-while-revalidate, or
+        // replaces the entry it revalidated in the background
+        if (etag || lastModified || cacheMode === 'stale-while-revalidate' || cached) {
+          this.httpCache.set(cacheKey, { data: responseData, status: response.status, message, etag, lastModified });
+        }
+      }
+
       return {
         data: responseData,
         status: response.status,
         success: true,
-        message: (responseData as { message?: string })?.message,
+        message,
       };
 
     } catch (error) {
       clearTimeout(timeoutId);
+
+      // Cancelled by the caller, not a timeout: no refresh and no retries
+      if (signal?.aborted) {
+        this.circuitBreaker?.recordIgnored();
+        throw this.cancelledError();
+      }
+
+      // No response at all: timeout or network error
+      const errorWithResponse = error as Error & { response?: { status: number; headers?: Headers } };
+      if (!errorWithResponse.response) {
+        this.circuitBreaker?.recordFailure();
+      }
       
-      // Retry logic for specific error types
-      const errorWithResponse = error as Error & { response?: { status: number } };
-      const shouldRetry = attempt < (config?.retries || this.retries) && 
-                         (errorWithResponse.name === 'AbortError' || 
-                         (errorWithResponse.response?.status && errorWithResponse.response.status >= 500));
+      // Refresh the tokens once on 401 and replay the request with the new ones
+      const refreshHandler = this.tokenRefreshHandler;
+      const shouldRefresh = errorWithResponse.response?.status === 401 &&
+                           !refreshed &&
+                           !config?.skipAuthRefresh &&
+                           (this.authMode === 'cookie' || !!this.authTokens?.refreshToken);
+
+      if (shouldRefresh && refreshHandler) {
+        const tokens = await refreshHandler(sentAccessToken);
+        if (tokens) {
+          return this.makeRequest<T>(url, options, attempt, true);
+        }
+        throw this.handleError(error);
+      }
+
+      // Retry according to the policy, waiting with backoff or as long as Retry-After asks
+      const apiError = this.handleError(error);
+      const policy = this.getRetryPolicy(config);
+      const retryContext: RetryContext = {
+        method,
+        url,
+        attempt,
+        idempotent: IDEMPOTENT_METHODS.includes(method) || !!requestHeaders[IDEMPOTENCY_KEY_HEADER],
+      };
+      const shouldRetry = attempt < policy.maxAttempts &&
+                         (policy.shouldRetry || isRetryableByDefault)(apiError, retryContext);
 
       if (shouldRetry) {
-        await this.sleep(this.retryDelay * attempt);
-        return this.makeRequest<T>(url, options, attempt + 1);
+        const retryAfter = parseRetryAfter(errorWithResponse.response?.headers?.get('retry-after'));
+        const delay = getRetryDelay(policy, attempt, retryAfter);
+        if (delay !== null) {
+          await this.sleep(delay, signal);
+          return this.makeRequest<T>(url, options, attempt + 1, refreshed);
+        }
       }
 
-      throw this.handleError(error);
+      throw apiError;
+    } finally {
+      signal?.removeEventListener('abort', abortRequest);
     }
   }
 
   // HTTP method implementations
   async get<T>(url: string, config?: RequestOptions['config']): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(url, { method: 'GET', config });
+    return this.request<T>(url, { method: 'GET', config });
   }
 
   async post<T>(
@@ -184,7 +511,7 @@ export class ApiService {
     data?: unknown, 
     config?: RequestOptions['config']
   ): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(url, { method: 'POST', body: data, config });
+    return this.request<T>(url, { method: 'POST', body: data, config });
   }
 
   async put<T>(
@@ -192,7 +519,7 @@ export class ApiService {
     data?: unknown, 
     config?: RequestOptions['config']
   ): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(url, { method: 'PUT', body: data, config });
+    return this.request<T>(url, { method: 'PUT', body: data, config });
   }
 
   async patch<T>(
@@ -200,18 +527,19 @@ export class ApiService {
     data?: unknown, 
     config?: RequestOptions['config']
   ): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(url, { method: 'PATCH', body: data, config });
+    return this.request<T>(url, { method: 'PATCH', body: data, config });
   }
 
   async delete<T>(url: string, config?: RequestOptions['config']): Promise<ApiResponse<T>> {
-    return this.makeRequest<T>(url, { method: 'DELETE', config });
+    return this.request<T>(url, { method: 'DELETE', config });
   }
 
   // Upload file method
   async uploadFile<T>(
     url: string, 
     file: File, 
-    additionalData?: Record<string, unknown>
+    additionalData?: Record<string, unknown>,
+    config?: RequestOptions['config']
   ): Promise<ApiResponse<T>> {
     const formData = new FormData();
     formData.append('file', file);
@@ -222,23 +550,106 @@ export class ApiService {
       });
     }
 
-    return this.makeRequest<T>(url, {
+    return this.request<T>(url, {
       method: 'POST',
       body: formData,
-      headers: {}, // Let browser set Content-Type for FormData
+      config,
     });
   }
 
-  // Request interceptor
+  // Add an interceptor to the end of the pipeline, returns a function that removes it
+  addInterceptor(interceptor: ApiInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => this.removeInterceptor(interceptor);
+  }
+
+  // Remove a previously added interceptor
+  removeInterceptor(interceptor: ApiInterceptor): void {
+    this.interceptors = this.interceptors.filter(existing => existing !== interceptor);
+  }
+
+  // Remove all interceptors
+  clearInterceptors(): void {
+    this.interceptors = [];
+    this.requestInterceptor = undefined;
+    this.responseInterceptor = undefined;
+  }
+
+  // Request interceptor (single slot, replaces the one previously set through this method)
   setRequestInterceptor(interceptor: (config: RequestOptions) => RequestOptions): void {
-    this.requestInterceptor = interceptor;
+    if (this.requestInterceptor) {
+      this.removeInterceptor(this.requestInterceptor);
+    }
+    this.requestInterceptor = {
+      name: 'requestInterceptor',
+      onRequest: (context) => ({ ...context, options: interceptor(context.options) }),
+    };
+    this.addInterceptor(this.requestInterceptor);
   }
 
-  // Response interceptor
+  // Response interceptor (single slot, replaces the one previously set through this method)
   setResponseInterceptor(interceptor: (response: ApiResponse<unknown>) => ApiResponse<unknown>): void {
-    this.responseInterceptor = interceptor;
+    if (this.responseInterceptor) {
+      this.removeInterceptor(this.responseInterceptor);
+    }
+    this.responseInterceptor = {
+      name: 'responseInterceptor',
+      onResponse: (response) => interceptor(response),
+    };
+    this.addInterceptor(this.responseInterceptor);
   }
 
-  private requestInterceptor?: (config: RequestOptions) => RequestOptions;
-  private responseInterceptor?: (response: ApiResponse<unknown>) => ApiResponse<unknown>;
-}
\ No newline at end of file
+  // Run a request through the interceptor pipeline
+  private async request<T>(url: string, options: RequestOptions): Promise<ApiResponse<T>> {
+    // Snapshot so interceptors added or removed mid-request don't affect it
+    const interceptors = [...this.interceptors];
+    let context: RequestContext = { url, options };
+
+    try {
+      // A missing path param fails with INVALID_REQUEST before anything is sent,
+      // the onError interceptors still see it
+      context = this.withRequestURL(url, this.withIdempotencyKey(options));
+      let response: ApiResponse<unknown> | null = null;
+
+      for (const interceptor of interceptors) {
+        if (!interceptor.onRequest) continue;
+        const result = await interceptor.onRequest(context);
+        if (isApiResponse(result)) {
+          response = result;
+          break;
+        }
+        context = result;
+      }
+
+      if (!response) {
+        response = await this.makeRequest<T>(context.url, context.options);
+      }
+
+      const responseSchema = context.options.config?.schema;
+      if (responseSchema) {
+        response = this.decodeResponse(response, responseSchema, context.url);
+      }
+
+      for (const interceptor of interceptors) {
+        if (interceptor.onResponse) {
+          response = await interceptor.onResponse(response, context);
+        }
+      }
+
+      return response as ApiResponse<T>;
+    } catch (error) {
+      let apiError = isApiError(error) ? error : this.handleError(error);
+
+      for (const interceptor of interceptors) {
+        if (!interceptor.onError) continue;
+        const result = await interceptor.onError(apiError, context);
+        if (isApiResponse(result)) {
+          return result as ApiResponse<T>;
+        }
+        apiError = result;
+      }
+
+      throw apiError;
+    }
+  }
+}
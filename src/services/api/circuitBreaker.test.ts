@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const openBreaker = (): CircuitBreaker => {
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+  breaker.recordFailure();
+  breaker.recordFailure();
+  return breaker;
+};
+
+describe('CircuitBreaker', () => {
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('starts counting again after a success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('turns half-open after resetTimeout and lets a single trial through', () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('opens again when the trial fails', () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('allows another trial when the previous one was ignored', () => {
+    const breaker = openBreaker();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordIgnored();
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('runs the probe when it turns half-open', () => {
+    const breaker = openBreaker();
+    const probe = vi.fn().mockResolvedValue(undefined);
+    breaker.setProbe(probe);
+    vi.advanceTimersByTime(1000);
+
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies subscribers of state changes until they unsubscribe', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const listener = vi.fn();
+    const unsubscribe = breaker.subscribe(listener);
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    unsubscribe();
+    breaker.recordSuccess();
+
+    expect(listener.mock.calls).toEqual([['open'], ['half-open']]);
+  });
+});
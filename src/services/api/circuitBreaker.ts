@@ -0,0 +1,92 @@
+// Circuit breaker of an ApiService
+// After failureThreshold consecutive failed attempts (timeouts, network errors, 5xx) the circuit
+// opens and requests fail fast instead of waiting through timeouts and retries. After
+// resetTimeout it turns half-open: one trial request, the probe if one is set, decides
+// whether it closes again or stays open for another resetTimeout.
+import type { CircuitBreakerConfig, CircuitState } from './types';
+
+export type CircuitListener = (state: CircuitState) => void;
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private trialInFlight = false;
+  private resetTimer?: ReturnType<typeof setTimeout>;
+  private probe?: () => Promise<unknown>;
+  private listeners = new Set<CircuitListener>();
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold || DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeout = config.resetTimeout || DEFAULT_RESET_TIMEOUT;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  // Can a request go out? While half-open only the trial request does.
+  allowRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'open' || this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.setState('closed');
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures += 1;
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.failureThreshold)) {
+      this.open();
+    }
+  }
+
+  // The request ended without telling anything about the backend (e.g. it was cancelled)
+  recordIgnored(): void {
+    this.trialInFlight = false;
+  }
+
+  // Request run as the half-open trial, instead of waiting for the next regular request
+  setProbe(probe?: () => Promise<unknown>): void {
+    this.probe = probe;
+  }
+
+  // Subscribe to state changes, returns an unsubscribe function
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private open(): void {
+    this.setState('open');
+    clearTimeout(this.resetTimer);
+    this.resetTimer = setTimeout(() => this.halfOpen(), this.resetTimeout);
+  }
+
+  private halfOpen(): void {
+    this.setState('half-open');
+    this.probe?.().catch(() => undefined);
+  }
+
+  private setState(state: CircuitState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
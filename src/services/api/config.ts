@@ -5,31 +5,116 @@ const defaultConfig = {
   timeout: parseInt(process.env.NEXT_PUBLIC_API_TIMEOUT || '15000'),
   retries: parseInt(process.env.NEXT_PUBLIC_API_RETRIES || '2'),
   retryDelay: parseInt(process.env.NEXT_PUBLIC_API_RETRY_DELAY || '500'),
+  schemaValidation: process.env.NEXT_PUBLIC_API_SCHEMA_VALIDATION === 'warn' ? 'warn' as const : 'strict' as const,
   defaultHeaders: {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   },
 };
 
+// Authentication mode
+// - token: bearer tokens are kept in the browser and sent directly to each backend
+// - bff: tokens stay in httpOnly cookies and calls go through the Next.js proxy under /api
+export const authConfig = {
+  mode: (process.env.NEXT_PUBLIC_AUTH_MODE === 'bff' ? 'bff' : 'token') as 'token' | 'bff',
+  sessionBaseURL: '/api/auth',
+  proxyBaseURL: '/api/proxy',
+};
+
+// OpenID Connect single sign-on against the studio identity provider, offered next to
+// the username and password login when a client id is configured (token auth mode only).
+// The provider's base URL is apiConfigs.oidc.baseURL.
+export const oidcConfig = {
+  enabled: !!process.env.NEXT_PUBLIC_OIDC_CLIENT_ID,
+  clientId: process.env.NEXT_PUBLIC_OIDC_CLIENT_ID || '',
+  // Expected iss of the issued tokens, defaults to the provider URL
+  issuer: process.env.NEXT_PUBLIC_OIDC_ISSUER || undefined,
+  authorizePath: process.env.NEXT_PUBLIC_OIDC_AUTHORIZE_PATH || '/authorize',
+  tokenPath: process.env.NEXT_PUBLIC_OIDC_TOKEN_PATH || '/token',
+  scope: process.env.NEXT_PUBLIC_OIDC_SCOPE || 'openid profile offline_access',
+  redirectPath: '/auth/callback',
+  providerName: process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME || 'SSO',
+};
+
+// Backend URLs. The server-only variables let the BFF proxy reach backends on an
+// internal network, and fall back to the public ones.
+export const backendURLs = {
+  main: process.env.WEB_SERVER_API_URL || process.env.NEXT_PUBLIC_WEB_SERVER_API_URL || 'http://localhost:5001/api',
+  auth: process.env.LOGIN_API_URL || process.env.NEXT_PUBLIC_LOGIN_API_URL || 'http://localhost:5000/api/v1',
+  orchestrator: process.env.ORCHESTRATOR_API_URL || process.env.NEXT_PUBLIC_ORCHESTRATOR_API_URL || 'http://localhost:5002/api',
+};
+
+export type BackendName = keyof typeof backendURLs;
+
+// In bff mode send a backend's calls through the proxy, authenticated by the session cookie
+const withAuthMode = (backend: BackendName, config: ApiServiceConfig): ApiServiceConfig => {
+  if (authConfig.mode !== 'bff') {
+    return config;
+  }
+  return {
+    ...config,
+    baseURL: `${authConfig.proxyBaseURL}/${backend}`,
+    authMode: 'cookie',
+    credentials: 'same-origin',
+    defaultHeaders: {
+      ...config.defaultHeaders,
+      // Custom header the proxy requires, cross-site forms can't send it
+      'X-Requested-With': 'XMLHttpRequest',
+    },
+  };
+};
+
 // API service configurations - using build-time environment variables
 export const apiConfigs = {
   // Main web server API
-  main: {
-    baseURL: process.env.NEXT_PUBLIC_WEB_SERVER_API_URL || 'http://localhost:5001/api',
+  main: withAuthMode('main', {
+    name: 'Web server',
+    baseURL: backendURLs.main,
     ...defaultConfig,
-  } as ApiServiceConfig,
+  }),
   
   // Auth/login server API  
-  auth: {
-    baseURL: process.env.NEXT_PUBLIC_LOGIN_API_URL || 'http://localhost:5000/api/v1',
+  auth: withAuthMode('auth', {
+    name: 'Login server',
+    baseURL: backendURLs.auth,
     ...defaultConfig,
-  } as ApiServiceConfig,
+  }),
 
   // Orchestrator API
-  orchestrator: {
-    baseURL: process.env.NEXT_PUBLIC_ORCHESTRATOR_API_URL || 'http://localhost:5002/api',
+  orchestrator: withAuthMode('orchestrator', {
+    name: 'Orchestrator',
+    baseURL: backendURLs.orchestrator,
     ...defaultConfig,
     timeout: 15000, // Longer timeout for monitoring operations
+    // Room for the server list and the metrics of every server and interval
+    httpCache: {
+      maxEntries: parseInt(process.env.NEXT_PUBLIC_ORCHESTRATOR_CACHE_ENTRIES || '300'),
+      maxSize: parseInt(process.env.NEXT_PUBLIC_ORCHESTRATOR_CACHE_MB || '10') * 1024 * 1024,
+    },
+  }),
+
+  // OpenID Connect identity provider, the token endpoint takes form-encoded bodies
+  oidc: {
+    name: 'Identity provider',
+    baseURL: process.env.NEXT_PUBLIC_OIDC_AUTHORITY_URL || 'http://localhost:5003',
+    ...defaultConfig,
+    retries: 1, // Single attempt, authorization codes can only be redeemed once
+    defaultHeaders: {
+      'Accept': 'application/json',
+    },
+  } as ApiServiceConfig,
+
+  // Session endpoints of the Next.js BFF (login, refresh, logout, hub tickets)
+  bff: {
+    name: 'Session service',
+    baseURL: authConfig.sessionBaseURL,
+    ...defaultConfig,
+    authMode: 'cookie',
+    credentials: 'same-origin',
+    defaultHeaders: {
+      ...defaultConfig.defaultHeaders,
+      'X-Requested-With': 'XMLHttpRequest',
+    },
   } as ApiServiceConfig,
 };
 
@@ -41,8 +126,38 @@ export const signalRConfigs = {
   },
 };
 
+// Session configuration
+export const sessionConfig = {
+  // How long before expiry the "session expiring" warning is shown
+  warningLeadTime: parseInt(process.env.NEXT_PUBLIC_SESSION_WARNING_MINUTES || '5') * 60 * 1000,
+  // Destructive orchestrator calls are refused when less than this is left on the token
+  destructiveActionMinRemaining: parseInt(process.env.NEXT_PUBLIC_SESSION_GUARD_SECONDS || '120') * 1000,
+  // Tokens from any other issuer are rejected (not checked when unset)
+  tokenIssuer: process.env.NEXT_PUBLIC_JWT_ISSUER || undefined,
+  // The UI locks after this long without user activity (0 disables the lock)
+  idleLockTimeout: parseInt(process.env.NEXT_PUBLIC_IDLE_LOCK_MINUTES || '15') * 60 * 1000,
+  // How long a password confirmation covers privileged actions
+  stepUpWindow: parseInt(process.env.NEXT_PUBLIC_STEP_UP_MINUTES || '5') * 60 * 1000,
+};
+
+// Password policy, checked live in the browser and enforced by the login server
+export const passwordPolicyConfig = {
+  minLength: parseInt(process.env.NEXT_PUBLIC_PASSWORD_MIN_LENGTH || '12'),
+  maxLength: 128,
+  // Common and breached passwords, one per line, served from public/
+  breachListURL: '/security/common-passwords.txt',
+};
+
+// Access control configuration
+export const accessControlConfig = {
+  // Role assumed when the login server reports neither roles nor permissions. Unset, such a
+  // session gets no access at all.
+  defaultRole: process.env.NEXT_PUBLIC_DEFAULT_ROLE || '',
+};
+
 // App configuration
 export const appConfig = {
   name: process.env.NEXT_PUBLIC_APP_NAME || 'Lime Web Admin',
   version: process.env.NEXT_PUBLIC_APP_VERSION || '1.0.0',
+  environment: process.env.NEXT_PUBLIC_APP_ENV || 'development',
 };
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Typed endpoint registries and the client calling them
+// A registry declares each endpoint once: method, url with its path params, query, body and
+// response types. createApiClient turns it into functions where a missing path param, an
+// unknown query key or a wrong body fails to compile.
+import type { ApiService } from './base';
+import type { ApiEndpoints, ApiResponse, EndpointDefinition, QueryParams, RequestConfig } from './types';
+
+// Names of the :params in a url, e.g. 'serverId' for '/servers/:serverId/metrics'
+export type PathParamNames<Url extends string> =
+  Url extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<Rest>
+    : Url extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+export type PathParams<Url extends string> = Record<PathParamNames<Url>, string | number>;
+
+// Argument of a client function, path, query and body are only accepted where the endpoint has them
+export type EndpointRequest<Endpoint> = Endpoint extends EndpointDefinition<infer Url, infer Query, infer Body>
+  ? ([PathParamNames<Url>] extends [never] ? { path?: never } : { path: PathParams<Url> })
+    & ([Query] extends [never] ? { query?: never } : { query?: Query })
+    & ([Body] extends [never] ? { body?: never } : { body: Body })
+    & { config?: RequestConfig }
+  : never;
+
+export type EndpointResponse<Endpoint> = Endpoint extends EndpointDefinition<string, unknown, unknown, infer Response>
+  ? Response
+  : never;
+
+// The request argument can be left out when nothing in it is required
+type EndpointArgs<Endpoint> = object extends EndpointRequest<Endpoint>
+  ? [request?: EndpointRequest<Endpoint>]
+  : [request: EndpointRequest<Endpoint>];
+
+export type ApiClient<Endpoints extends ApiEndpoints> = {
+  [Name in keyof Endpoints]: (
+    ...args: EndpointArgs<Endpoints[Name]>
+  ) => Promise<ApiResponse<EndpointResponse<Endpoints[Name]>>>;
+};
+
+interface EndpointCall {
+  path?: Record<string, string | number>;
+  query?: object;
+  body?: unknown;
+  config?: RequestConfig;
+}
+
+// Declare an endpoint. Called twice so the response, query and body types can be given while
+// the url's path params are still inferred:
+//   defineEndpoint<User>()({ method: 'GET', url: '/users/:id' })
+export const defineEndpoint = <Response, Query = never, Body = never>() =>
+  <Url extends string>(
+    definition: Omit<EndpointDefinition<Url, Query, Body, Response>, 'types'>
+  ): EndpointDefinition<Url, Query, Body, Response> => definition;
+
+const callEndpoint = (
+  service: ApiService,
+  endpoint: EndpointDefinition,
+  request: EndpointCall
+): Promise<ApiResponse<unknown>> => {
+  const url = endpoint.url;
+  const config: RequestConfig = {
+    // A public endpoint answering 401 says nothing about the session
+    ...(endpoint.requiresAuth === false && { skipAuthRefresh: true }),
+    ...endpoint.config,
+    ...request.config,
+    // The query types of the registry are checked at the call, the service encodes them
+    ...(request.query && { params: request.query as QueryParams }),
+    pathParams: request.path || {}, // Also when missing, so a :param left in the url is an error
+  };
+
+  switch (endpoint.method) {
+    case 'GET':
+      return service.get(url, config);
+    case 'POST':
+      return service.post(url, request.body, config);
+    case 'PUT':
+      return service.put(url, request.body, config);
+    case 'PATCH':
+      return service.patch(url, request.body, config);
+    case 'DELETE':
+      return service.delete(url, config);
+  }
+};
+
+// Client with one function per endpoint of the registry, sending its requests through the service
+export const createApiClient = <Endpoints extends ApiEndpoints>(
+  service: ApiService,
+  endpoints: Endpoints
+): ApiClient<Endpoints> => {
+  const client: Record<string, (request?: EndpointCall) => Promise<ApiResponse<unknown>>> = {};
+
+  Object.entries(endpoints).forEach(([name, endpoint]) => {
+    client[name] = (request: EndpointCall = {}): Promise<ApiResponse<unknown>> => callEndpoint(service, endpoint, request);
+  });
+
+  return client as ApiClient<Endpoints>;
+};
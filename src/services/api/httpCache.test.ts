@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HttpCache } from './httpCache';
+import { ApiService } from './base';
+
+const entry = (data: unknown) => ({ data, status: 200, etag: '"v1"' });
+
+const jsonResponse = (data: unknown, init: ResponseInit = {}): Response => new Response(JSON.stringify(data), {
+  status: 200,
+  ...init,
+  headers: { 'content-type': 'application/json', ...init.headers },
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('HttpCache', () => {
+  it('evicts the least recently used entry beyond maxEntries', () => {
+    const cache = new HttpCache({ maxEntries: 2 });
+    cache.set('a', entry('a'));
+    cache.set('b', entry('b'));
+    cache.get('a');
+    cache.set('c', entry('c'));
+
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('c')).not.toBeNull();
+  });
+
+  it('evicts entries beyond maxSize and skips bodies larger than it', () => {
+    const cache = new HttpCache({ maxSize: 40 });
+    cache.set('a', entry('x'.repeat(12)));
+    cache.set('b', entry('x'.repeat(12)));
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).not.toBeNull();
+
+    cache.set('c', entry('x'.repeat(100)));
+    expect(cache.get('c')).toBeNull();
+  });
+
+  it('replaces an entry stored under the same key', () => {
+    const cache = new HttpCache();
+    cache.set('a', entry('old'));
+    cache.set('a', entry('new'));
+    expect(cache.get('a')?.data).toBe('new');
+  });
+});
+
+describe('ApiService HTTP cache', () => {
+  const createService = (): ApiService => new ApiService({ baseURL: 'https://api.test', circuitBreaker: false });
+
+  it('revalidates with the ETag and answers a 304 from the cache', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }, { headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+
+    await service.get('/servers', { cache: true });
+    const response = await service.get('/servers', { cache: true });
+
+    expect(response).toMatchObject({ data: { id: 1 }, status: 200, success: true });
+    const [, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['If-None-Match']).toBe('"v1"');
+  });
+
+  it('doesn\'t store responses without validators in validate mode', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }))
+      .mockResolvedValueOnce(jsonResponse({ id: 2 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+
+    await service.get('/servers', { cache: true });
+    const response = await service.get('/servers', { cache: true });
+
+    expect(response.data).toEqual({ id: 2 });
+    const [, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['If-None-Match']).toBeUndefined();
+  });
+
+  it('answers from the cache right away and revalidates in the background', async () => {
+    let resolveRevalidation: (response: Response) => void = () => undefined;
+    const fetchMock = vi.fn(() => Promise.resolve(jsonResponse({ version: 2 })))
+      .mockResolvedValueOnce(jsonResponse({ version: 1 }))
+      .mockReturnValueOnce(new Promise<Response>((resolve) => {
+        resolveRevalidation = resolve;
+      }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+
+    await service.get('/servers', { cache: 'stale-while-revalidate' });
+    const stale = await service.get('/servers', { cache: 'stale-while-revalidate' });
+    expect(stale.data).toEqual({ version: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    resolveRevalidation(jsonResponse({ version: 2 }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const fresh = await service.get('/servers', { cache: 'stale-while-revalidate' });
+    expect(fresh.data).toEqual({ version: 2 });
+  });
+
+  it('forgets the cached responses on clearCache', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }, { headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(jsonResponse({ id: 2 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createService();
+
+    await service.get('/servers', { cache: true });
+    service.clearCache();
+    await service.get('/servers', { cache: true });
+
+    const [, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['If-None-Match']).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+// Responses kept by an ApiService for conditional requests
+// Entries are stored with their ETag and Last-Modified validators and evicted least recently
+// used first once the service's entry or size limit is reached.
+import type { HttpCacheConfig } from './types';
+
+export interface HttpCacheEntry {
+  data: unknown;
+  status: number;
+  message?: string;
+  etag?: string;
+  lastModified?: string;
+  size: number;
+  storedAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_MAX_SIZE = 5 * 1024 * 1024; // 5 MB
+
+// Approximate size of a body in memory, strings take two bytes per character
+const estimateSize = (data: unknown): number => {
+  const text = typeof data === 'string' ? data : JSON.stringify(data ?? null);
+  return text.length * 2;
+};
+
+export class HttpCache {
+  private entries = new Map<string, HttpCacheEntry>();
+  private size = 0;
+  private maxEntries: number;
+  private maxSize: number;
+
+  constructor(config: HttpCacheConfig = {}) {
+    this.maxEntries = config.maxEntries || DEFAULT_MAX_ENTRIES;
+    this.maxSize = config.maxSize || DEFAULT_MAX_SIZE;
+  }
+
+  // Get an entry and mark it as recently used
+  get(key: string): HttpCacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: Omit<HttpCacheEntry, 'size' | 'storedAt'>): void {
+    this.delete(key);
+
+    const size = estimateSize(entry.data);
+    if (size > this.maxSize) {
+      return;
+    }
+
+    this.entries.set(key, { ...entry, size, storedAt: Date.now() });
+    this.size += size;
+
+    // Map iteration follows insertion order, the first entry is the least recently used
+    while (this.entries.size > this.maxEntries || this.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.delete(oldest);
+    }
+  }
+
+  // Mark an entry as confirmed by the server (a 304)
+  touch(key: string): void {
+    const entry = this.get(key);
+    if (entry) {
+      entry.storedAt = Date.now();
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.size -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+  }
+}
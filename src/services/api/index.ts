@@ -2,6 +2,10 @@
 export { ApiService } from './base';
 export * from './types';
 export * from './config';
+export * from './endpoints';
+export * from './url';
+export * from './schema';
+export * from './problemDetails';
 
 // Create API service instances
 import { ApiService } from './base';
@@ -14,11 +18,19 @@ export const apiService = new ApiService(apiConfigs.main);
 export const authService = new ApiService(apiConfigs.auth);
 export const orchestratorService = new ApiService(apiConfigs.orchestrator);
 
+// Session endpoints of the Next.js backend-for-frontend (BFF auth mode)
+export const bffService = new ApiService(apiConfigs.bff);
+
+// OpenID Connect identity provider (single sign-on)
+export const oidcService = new ApiService(apiConfigs.oidc);
+
 // Service instances object for easier access
 export const services = {
   api: apiService,
   auth: authService,
   orchestrator: orchestratorService,
+  bff: bffService,
+  oidc: oidcService,
 };
 
 // Export configuration utilities
@@ -28,10 +40,27 @@ export { appConfig };
 export type {
   ApiResponse,
   ApiError,
+  ProblemDetails,
+  FieldErrors,
   RequestConfig,
+  QueryParams,
+  QueryParamValue,
+  PathParamValues,
   ApiServiceConfig,
+  AuthMode,
   HttpMethod,
   RequestOptions,
+  RequestContext,
+  ApiInterceptor,
   ApiEndpoints,
+  EndpointDefinition,
   AuthTokens,
+  TokenRefreshHandler,
+  HttpCacheMode,
+  HttpCacheConfig,
+  RetryPolicy,
+  RetryContext,
+  CircuitState,
+  CircuitBreakerConfig,
+  SchemaValidation,
 } from './types';
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseFieldErrors, parseProblemDetails, toFieldPath } from './problemDetails';
+
+describe('toFieldPath', () => {
+  it('maps the server\'s paths to the shape of the request body', () => {
+    expect(toFieldPath('Address.City')).toBe('address.city');
+    expect(toFieldPath('$.address.city')).toBe('address.city');
+    expect(toFieldPath('/address/city')).toBe('address.city');
+    expect(toFieldPath('#/items/0/name')).toBe('items[0].name');
+  });
+});
+
+describe('parseProblemDetails', () => {
+  it('reads a problem+json body and keeps the other members as extensions', () => {
+    expect(parseProblemDetails({
+      type: 'https://lime.test/problems/validation',
+      title: 'Validation failed',
+      status: 400,
+      traceId: 'abc',
+    }, 'application/problem+json; charset=utf-8')).toEqual({
+      type: 'https://lime.test/problems/validation',
+      title: 'Validation failed',
+      status: 400,
+      detail: undefined,
+      instance: undefined,
+      extensions: { traceId: 'abc' },
+    });
+  });
+
+  it('recognizes a problem sent as application/json by its title and status', () => {
+    expect(parseProblemDetails({ title: 'Conflict', status: 409 }, 'application/json')?.type).toBe('about:blank');
+  });
+
+  it('ignores bodies that aren\'t problems', () => {
+    expect(parseProblemDetails({ message: 'Server error' }, 'application/json')).toBeUndefined();
+    expect(parseProblemDetails('Bad Gateway', 'text/html')).toBeUndefined();
+  });
+});
+
+describe('parseFieldErrors', () => {
+  it('reads the ASP.NET errors map', () => {
+    expect(parseFieldErrors({
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      errors: {
+        Email: ['Email is required.', 'Email is invalid.'],
+        'Address.City': ['City is required.'],
+        '': ['The request is invalid.'],
+      },
+    })).toEqual({
+      email: ['Email is required.', 'Email is invalid.'],
+      'address.city': ['City is required.'],
+    });
+  });
+
+  it('reads the RFC 7807 invalid-params list', () => {
+    expect(parseFieldErrors({
+      type: 'https://example.net/validation-error',
+      'invalid-params': [
+        { name: 'age', reason: 'must be a positive integer' },
+        { name: 'color', reason: 'must be \'green\', \'red\' or \'blue\'' },
+      ],
+    })).toEqual({
+      age: ['must be a positive integer'],
+      color: ['must be \'green\', \'red\' or \'blue\''],
+    });
+  });
+
+  it('reads an errors list with JSON pointers', () => {
+    expect(parseFieldErrors({ errors: [{ pointer: '/items/0/name', detail: 'Name is too long.' }] }))
+      .toEqual({ 'items[0].name': ['Name is too long.'] });
+  });
+
+  it('returns undefined when a body has no field errors', () => {
+    expect(parseFieldErrors({ message: 'Server error' })).toBeUndefined();
+    expect(parseFieldErrors({ errors: { '': ['The request is invalid.'] } })).toBeUndefined();
+    expect(parseFieldErrors(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+// Error bodies: RFC 7807 problem details and field-level validation errors
+// The backends answer failed requests with application/problem+json. Validation failures
+// add their messages per field, in one of the shapes below:
+// - ASP.NET: { errors: { Email: ['...'], 'Address.City': ['...'] } }
+// - RFC 7807 example: { 'invalid-params': [{ name: 'email', reason: '...' }] }
+// - list: { errors: [{ field | pointer: '/email', message | detail: '...' }] }
+import type { FieldErrors, ProblemDetails } from './types';
+
+const PROBLEM_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value !== '' ? value : undefined;
+
+// Field path in the shape of the request body: 'Address.City', '$.address.city' and
+// '/address/city' all become 'address.city', '/items/0/name' becomes 'items[0].name'
+export const toFieldPath = (key: string): string => {
+  const segments = key
+    .replace(/^#/, '')
+    .replace(/^\$\.?/, '')
+    .split(/[./]/)
+    .filter(segment => segment !== '');
+
+  return segments.reduce((path, segment) => {
+    if (/^\d+$/.test(segment)) {
+      return `${path}[${segment}]`;
+    }
+    const name = segment.replace(/^[A-Z]/, char => char.toLowerCase());
+    return path ? `${path}.${name}` : name;
+  }, '');
+};
+
+// Problem details of an error body, undefined when the body isn't one. Bodies sent as
+// application/json count too when they carry a title or type along with a status.
+export const parseProblemDetails = (data: unknown, contentType?: string | null): ProblemDetails | undefined => {
+  if (!isObject(data)) {
+    return undefined;
+  }
+
+  const isProblem = contentType?.includes('application/problem+json') ||
+    ((typeof data.title === 'string' || typeof data.type === 'string') && typeof data.status === 'number');
+  if (!isProblem) {
+    return undefined;
+  }
+
+  const extensions = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !PROBLEM_MEMBERS.includes(key))
+  );
+  return {
+    type: optionalString(data.type) || 'about:blank',
+    title: optionalString(data.title),
+    status: typeof data.status === 'number' ? data.status : undefined,
+    detail: optionalString(data.detail),
+    instance: optionalString(data.instance),
+    extensions,
+  };
+};
+
+// Field errors of an error body, undefined when it has none. Messages without a field
+// (e.g. ASP.NET's '' key) aren't field errors, the error message covers them.
+export const parseFieldErrors = (data: unknown): FieldErrors | undefined => {
+  if (!isObject(data)) {
+    return undefined;
+  }
+
+  const fieldErrors: FieldErrors = {};
+  const add = (key: unknown, message: unknown): void => {
+    const path = typeof key === 'string' ? toFieldPath(key) : '';
+    if (!path || typeof message !== 'string' || message === '') return;
+    fieldErrors[path] = [...(fieldErrors[path] || []), message];
+  };
+
+  if (isObject(data.errors)) {
+    Object.entries(data.errors).forEach(([key, messages]) => {
+      (Array.isArray(messages) ? messages : [messages]).forEach(message => add(key, message));
+    });
+  }
+
+  const entries = [
+    ...(Array.isArray(data.errors) ? data.errors : []),
+    ...(Array.isArray(data['invalid-params']) ? data['invalid-params'] : []),
+    ...(Array.isArray(data.invalidParams) ? data.invalidParams : []),
+  ];
+  entries.filter(isObject).forEach((entry) => {
+    add(
+      entry.field ?? entry.name ?? entry.pointer ?? entry.property,
+      entry.message ?? entry.reason ?? entry.detail
+    );
+  });
+
+  return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+};
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableByDefault, parseRetryAfter } from './retryPolicy';
+import type { RetryContext } from './types';
+
+const context = (overrides: Partial<RetryContext> = {}): RetryContext => ({
+  method: 'GET',
+  url: '/servers',
+  attempt: 1,
+  idempotent: true,
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT')).toBe(30000);
+  });
+
+  it('never returns a negative delay', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    expect(parseRetryAfter('-5')).toBe(0);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: false };
+
+  it('doubles the delay for each attempt up to maxDelay', () => {
+    expect(getRetryDelay(policy, 1, null)).toBe(1000);
+    expect(getRetryDelay(policy, 2, null)).toBe(2000);
+    expect(getRetryDelay(policy, 3, null)).toBe(4000);
+    expect(getRetryDelay(policy, 10, null)).toBe(30000);
+  });
+
+  it('picks a random delay up to the backoff with jitter', () => {
+    const jittered = { ...policy, jitter: true };
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(getRetryDelay(jittered, 2, null)).toBe(1000);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(jittered, 2, null)).toBe(0);
+  });
+
+  it('waits as long as Retry-After asks', () => {
+    expect(getRetryDelay(policy, 1, 5000)).toBe(5000);
+  });
+
+  it('gives up when Retry-After exceeds maxDelay', () => {
+    expect(getRetryDelay(policy, 1, 60000)).toBeNull();
+  });
+
+  it('ignores Retry-After when the policy doesn\'t respect it', () => {
+    expect(getRetryDelay({ ...policy, respectRetryAfter: false }, 1, 60000)).toBe(1000);
+  });
+});
+
+describe('isRetryableByDefault', () => {
+  it('retries network errors, timeouts, rate limits and server errors', () => {
+    expect(isRetryableByDefault({ message: '', status: 0, code: 'NETWORK_ERROR' }, context())).toBe(true);
+    [408, 429, 500, 502, 503, 504].forEach((status) => {
+      expect(isRetryableByDefault({ message: '', status }, context())).toBe(true);
+    });
+  });
+
+  it('doesn\'t retry client errors or 501', () => {
+    [400, 401, 404, 501].forEach((status) => {
+      expect(isRetryableByDefault({ message: '', status }, context())).toBe(false);
+    });
+  });
+
+  it('doesn\'t retry requests that aren\'t safe to repeat', () => {
+    expect(isRetryableByDefault({ message: '', status: 503 }, context({ method: 'POST', idempotent: false }))).toBe(false);
+  });
+});
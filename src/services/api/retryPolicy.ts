@@ -0,0 +1,63 @@
+// Retry policy of the ApiService
+// Failed attempts are retried with exponential backoff and full jitter. Only requests that are
+// safe to repeat are retried by default: idempotent methods, and mutations sent with an
+// Idempotency-Key the backend uses to recognize the repeat.
+import type { ApiError, HttpMethod, RetryContext, RetryPolicy } from './types';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Statuses worth another attempt: timeouts, rate limits and server errors (not 501 Not Implemented)
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'shouldRetry'>> = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+export const isRetryableByDefault = (error: ApiError, context: RetryContext): boolean => {
+  if (!context.idempotent) {
+    return false;
+  }
+  return error.code === 'NETWORK_ERROR' || RETRYABLE_STATUSES.includes(error.status);
+};
+
+// Retry-After holds either seconds or an HTTP date (RFC 9110), returns milliseconds
+export const parseRetryAfter = (value: string | null | undefined): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Delay before the next attempt, null when the server asks to wait longer than maxDelay
+export const getRetryDelay = (
+  policy: Required<Omit<RetryPolicy, 'shouldRetry'>>,
+  attempt: number,
+  retryAfter: number | null
+): number | null => {
+  if (policy.respectRetryAfter && retryAfter !== null) {
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt - 1));
+  return policy.jitter ? Math.random() * backoff : backoff;
+};
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWith, schema } from './schema';
+import type { Schema } from './schema';
+
+describe('decodeWith', () => {
+  it('coerces numeric strings, numbers and boolean strings', () => {
+    const serverSchema = schema.object({
+      cpu: schema.number(),
+      id: schema.string(),
+      online: schema.boolean(),
+    });
+
+    expect(decodeWith(serverSchema, { cpu: '42.5', id: 7, online: 'true' })).toEqual({
+      value: { cpu: 42.5, id: '7', online: true },
+      issues: [],
+    });
+  });
+
+  it('records every mismatch with its path', () => {
+    const listSchema = schema.object({
+      servers: schema.array(schema.object({ name: schema.string(), cpu: schema.number() })),
+    });
+
+    const { issues } = decodeWith(listSchema, {
+      servers: [{ name: 'eu-1', cpu: 10 }, { name: null, cpu: 'high' }],
+    });
+
+    expect(issues).toEqual([
+      { path: 'servers[1].name', message: 'expected string, got null' },
+      { path: 'servers[1].cpu', message: 'expected number, got string' },
+    ]);
+  });
+
+  it('reports missing fields unless they are optional', () => {
+    const userSchema = schema.object({
+      id: schema.string(),
+      avatar: schema.optional(schema.string()),
+    });
+
+    expect(decodeWith(userSchema, {}).issues).toEqual([{ path: 'id', message: 'missing' }]);
+  });
+
+  it('keeps fields the schema doesn\'t know', () => {
+    const { value } = decodeWith(schema.object({ id: schema.string() }), { id: 'a', region: 'eu' });
+    expect(value).toEqual({ id: 'a', region: 'eu' });
+  });
+
+  it('accepts null for nullable schemas only', () => {
+    expect(decodeWith(schema.nullable(schema.number()), null).issues).toEqual([]);
+    expect(decodeWith(schema.number(), null).issues).toEqual([
+      { path: '(root)', message: 'expected number, got null' },
+    ]);
+  });
+
+  it('checks enum values and record entries', () => {
+    const statusSchema = schema.record(schema.oneOf(['online', 'offline'] as const));
+    expect(decodeWith(statusSchema, { eu: 'online', us: 'unknown' }).issues).toEqual([
+      { path: 'us', message: 'expected one of online, offline, got "unknown"' },
+    ]);
+  });
+
+  it('decodes recursive schemas through lazy', () => {
+    interface Node {
+      name: string;
+      children: Node[];
+    }
+    const nodeSchema: Schema<Node> = schema.lazy(() => schema.object({
+      name: schema.string(),
+      children: schema.array(nodeSchema),
+    }));
+
+    const { issues } = decodeWith(nodeSchema, { name: 'root', children: [{ name: 'leaf', children: [{}] }] });
+    expect(issues.map(issue => issue.path)).toEqual(['children[0].children[0].name', 'children[0].children[0].children']);
+  });
+});
@@ -0,0 +1,142 @@
+// Runtime schemas for response payloads
+// A schema checks a decoded JSON value and coerces what can safely be coerced (numeric strings
+// to numbers, numbers to strings). Every mismatch is recorded with its path, e.g.
+// 'servers[3].cpu', instead of stopping at the first one.
+
+export interface DecodeIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  optional?: boolean; // Leaving the field out of an object is fine
+  decode: (value: unknown, path: string, issues: DecodeIssue[]) => T;
+}
+
+export type SchemaType<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = <T>(issues: DecodeIssue[], path: string, expected: string, value: unknown): T => {
+  issues.push({ path: path || '(root)', message: `expected ${expected}, got ${describe(value)}` });
+  return value as T;
+};
+
+const childPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const string = (): Schema<string> => ({
+  decode: (value, path, issues): string => {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return fail(issues, path, 'string', value);
+  },
+});
+
+const number = (): Schema<number> => ({
+  decode: (value, path, issues): number => {
+    if (typeof value === 'number' && !Number.isNaN(value)) return value;
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+    return fail(issues, path, 'number', value);
+  },
+});
+
+const boolean = (): Schema<boolean> => ({
+  decode: (value, path, issues): boolean => {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    return fail(issues, path, 'boolean', value);
+  },
+});
+
+const unknownValue = (): Schema<unknown> => ({
+  decode: value => value,
+});
+
+const oneOf = <const Values extends readonly (string | number | boolean)[]>(values: Values): Schema<Values[number]> => ({
+  decode: (value, path, issues): Values[number] => {
+    if (values.includes(value as Values[number])) return value as Values[number];
+    issues.push({ path: path || '(root)', message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}` });
+    return value as Values[number];
+  },
+});
+
+const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  decode: (value, path, issues): T[] => {
+    if (!Array.isArray(value)) return fail(issues, path, 'array', value);
+    return value.map((entry, index) => item.decode(entry, `${path}[${index}]`, issues));
+  },
+});
+
+// Fields missing from the shape are kept as they are, new backend fields don't break decoding
+const object = <Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [Key in keyof Shape]: SchemaType<Shape[Key]> }> => ({
+  decode: (value, path, issues): { [Key in keyof Shape]: SchemaType<Shape[Key]> } => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(issues, path, 'object', value);
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    Object.entries(shape).forEach(([key, field]) => {
+      const fieldValue = (value as Record<string, unknown>)[key];
+      if (fieldValue === undefined) {
+        if (!field.optional) {
+          issues.push({ path: childPath(path, key), message: 'missing' });
+        }
+        return;
+      }
+      result[key] = field.decode(fieldValue, childPath(path, key), issues);
+    });
+    return result as { [Key in keyof Shape]: SchemaType<Shape[Key]> };
+  },
+});
+
+const record = <T>(item: Schema<T>): Schema<Record<string, T>> => ({
+  decode: (value, path, issues): Record<string, T> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(issues, path, 'object', value);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, item.decode(entry, childPath(path, key), issues)])
+    );
+  },
+});
+
+const optional = <T>(inner: Schema<T>): Schema<T | undefined> => ({
+  decode: (value, path, issues) => (value === undefined ? undefined : inner.decode(value, path, issues)),
+  optional: true,
+});
+
+const nullable = <T>(inner: Schema<T>): Schema<T | null> => ({
+  decode: (value, path, issues) => (value === null ? null : inner.decode(value, path, issues)),
+  optional: inner.optional,
+});
+
+// Refers to a schema declared later, or to itself
+const lazy = <T>(get: () => Schema<T>): Schema<T> => ({
+  decode: (value, path, issues) => get().decode(value, path, issues),
+});
+
+export const schema = {
+  string,
+  number,
+  boolean,
+  unknown: unknownValue,
+  oneOf,
+  array,
+  object,
+  record,
+  optional,
+  nullable,
+  lazy,
+};
+
+// Decode a value, the issues are empty when it matches the schema
+export const decodeWith = <T>(valueSchema: Schema<T>, value: unknown): { value: T; issues: DecodeIssue[] } => {
+  const issues: DecodeIssue[] = [];
+  return { value: valueSchema.decode(value, '', issues), issues };
+};
@@ -1,4 +1,5 @@
 // API Types and Interfaces
+import type { Schema } from './schema';
 
 export interface ApiResponse<T = unknown> {
   data: T | null;
@@ -7,26 +8,116 @@ export interface ApiResponse<T = unknown> {
   success: boolean;
 }
 
+// Problem details of an error response (RFC 7807, application/problem+json)
+export interface ProblemDetails {
+  type: string; // URI of the problem type, 'about:blank' when the body didn't name one
+  title?: string; // Summary of the problem type
+  status?: number;
+  detail?: string; // Explanation of this occurrence
+  instance?: string; // URI of this occurrence
+  extensions: Record<string, unknown>; // Any other members of the body
+}
+
+// Validation messages per field path of the request body, e.g. 'email' or 'address.city'
+export type FieldErrors = Record<string, string[]>;
+
 export interface ApiError {
   message: string;
   status: number;
   code?: string;
   details?: unknown;
+  problem?: ProblemDetails;
+  fieldErrors?: FieldErrors;
 }
 
+// How a GET request uses the HTTP cache of its service
+// - validate: sends the stored ETag/Last-Modified validators, a 304 is answered from the cache
+// - stale-while-revalidate: answers from the cache right away and validates in the background
+export type HttpCacheMode = 'validate' | 'stale-while-revalidate';
+
+// What a retry predicate knows about the failed attempt
+export interface RetryContext {
+  method: HttpMethod;
+  url: string;
+  attempt: number; // The attempt that failed, starting at 1
+  idempotent: boolean; // Idempotent method, or sent with an Idempotency-Key
+}
+
+// How failed requests are retried, set per service and overridable per request
+export interface RetryPolicy {
+  maxAttempts?: number; // Attempts including the first one
+  baseDelay?: number; // Delay before the first retry in milliseconds, doubled for each next one
+  maxDelay?: number; // Upper bound of a delay, longer Retry-After values aren't waited for
+  jitter?: boolean; // Randomize the delays, so clients don't retry in lockstep
+  respectRetryAfter?: boolean; // Wait as long as the Retry-After header of a 429 or 503 asks
+  shouldRetry?: (error: ApiError, context: RetryContext) => boolean; // Replaces the default predicate
+}
+
+// Value of a query parameter, see toQueryString for the encoding
+export type QueryParamValue = string | number | boolean | Date | null | undefined;
+
+export type QueryParams = Record<string, QueryParamValue | readonly QueryParamValue[]>;
+
+// Values of the :params in a url
+export type PathParamValues = Record<string, string | number>;
+
 export interface RequestConfig {
+  params?: QueryParams; // Appended to the url as its query string, empty values are left out
+  pathParams?: PathParamValues; // Fill the :params of the url, e.g. '/servers/:id/metrics'
   headers?: Record<string, string>;
   timeout?: number;
-  retries?: number;
-  cache?: boolean;
+  retries?: number; // Shorthand for retryPolicy.maxAttempts
+  retryPolicy?: RetryPolicy;
+  // Send an Idempotency-Key header (generated for true) that stays the same across retries,
+  // which makes the mutation safe to retry
+  idempotencyKey?: boolean | string;
+  cache?: boolean | HttpCacheMode; // true is 'validate', only used by GET requests
+  skipAuthRefresh?: boolean; // Don't attempt a token refresh when this request gets a 401
+  signal?: AbortSignal; // Aborting it cancels the request with a CANCELLED error
+  schema?: Schema<unknown>; // Checks and coerces the response data, see schemaValidation
+}
+
+// How a service authenticates its requests
+// - bearer: sends the tokens set through setAuthTokens in the Authorization header
+// - cookie: relies on the httpOnly session cookie of the Next.js proxy
+export type AuthMode = 'bearer' | 'cookie';
+
+// Storage limits of a service's HTTP cache, least recently used responses are evicted first
+export interface HttpCacheConfig {
+  maxEntries?: number;
+  maxSize?: number; // Approximate size of the stored bodies, in bytes
+}
+
+// Circuit breaker states
+// - closed: requests pass
+// - open: the backend is failing, requests fail fast with CIRCUIT_OPEN
+// - half-open: a single trial request (the probe, if set) decides whether to close again
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Consecutive failed attempts that open the circuit
+  resetTimeout?: number; // Time the circuit stays open before the half-open trial, in milliseconds
 }
 
+// What happens when response data doesn't match the schema of its request
+// - strict: the request fails with a DECODE_ERROR listing the mismatched paths
+// - warn: the mismatches are logged and the data is used anyway. Development builds only,
+//   other builds treat it as strict.
+export type SchemaValidation = 'strict' | 'warn';
+
 export interface ApiServiceConfig {
+  name?: string; // Backend name used in error messages
   baseURL: string;
   timeout?: number;
   defaultHeaders?: Record<string, string>;
-  retries?: number;
-  retryDelay?: number;
+  retries?: number; // Shorthand for retryPolicy.maxAttempts
+  retryDelay?: number; // Shorthand for retryPolicy.baseDelay
+  retryPolicy?: RetryPolicy;
+  authMode?: AuthMode;
+  credentials?: RequestCredentials;
+  httpCache?: HttpCacheConfig;
+  circuitBreaker?: CircuitBreakerConfig | false; // false disables the breaker
+  schemaValidation?: SchemaValidation;
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
@@ -38,13 +129,45 @@ export interface RequestOptions {
   config?: RequestConfig;
 }
 
-// Generic API endpoints interface
+// Request as seen by the interceptor pipeline
+export interface RequestContext {
+  url: string;
+  options: RequestOptions;
+}
+
+// Interceptor stages. Each stage may be async and runs in the order the
+// interceptors were added to the service.
+// - onRequest can rewrite the request, or return an ApiResponse to skip the network call
+// - onResponse can transform a successful response
+// - onError can rewrite the error, or return an ApiResponse to recover from it
+export interface ApiInterceptor {
+  name?: string;
+  onRequest?: (
+    context: RequestContext
+  ) => RequestContext | ApiResponse<unknown> | Promise<RequestContext | ApiResponse<unknown>>;
+  onResponse?: (
+    response: ApiResponse<unknown>,
+    context: RequestContext
+  ) => ApiResponse<unknown> | Promise<ApiResponse<unknown>>;
+  onError?: (
+    error: ApiError,
+    context: RequestContext
+  ) => ApiError | ApiResponse<unknown> | Promise<ApiError | ApiResponse<unknown>>;
+}
+
+// One endpoint of a registry. The url may hold path params, e.g. '/servers/:serverId'.
+// Query, Body and Response only carry types for the typed client, see defineEndpoint.
+export interface EndpointDefinition<Url extends string = string, Query = unknown, Body = unknown, Response = unknown> {
+  url: Url;
+  method: HttpMethod;
+  requiresAuth?: boolean; // false for public endpoints, their 401s don't refresh the session
+  config?: RequestConfig; // Defaults for every call, e.g. { cache: true }
+  types?: { query: Query; body: Body; response: Response };
+}
+
+// Endpoint registry of a backend
 export interface ApiEndpoints {
-  [key: string]: {
-    url: string;
-    method: HttpMethod;
-    requiresAuth?: boolean;
-  };
+  [key: string]: EndpointDefinition;
 }
 
 // Auth token interface
@@ -52,4 +175,9 @@ export interface AuthTokens {
   accessToken?: string;
   refreshToken?: string;
   tokenType?: string;
-}
\ No newline at end of file
+}
+
+// Called on a 401 to obtain fresh tokens, resolves to null when the session can't be refreshed.
+// Gets the access token the failed request was sent with, undefined in cookie mode.
+// In cookie mode the tokens live in the proxy's cookies and the resolved object is empty.
+export type TokenRefreshHandler = (failedAccessToken?: string) => Promise<AuthTokens | null>;
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildPath, buildRequestURL, toQueryString } from './url';
+
+describe('buildPath', () => {
+  it('fills in and encodes the path params', () => {
+    expect(buildPath('/servers/:serverId/metrics', { serverId: 'eu 1' })).toBe('/servers/eu%201/metrics');
+    expect(buildPath('/users/:id', { id: 42 })).toBe('/users/42');
+  });
+
+  it('keeps a param inside a single segment', () => {
+    expect(buildPath('/servers/:id', { id: 'eu/1?x=1' })).toBe('/servers/eu%2F1%3Fx%3D1');
+  });
+
+  it('rejects missing params and dot segments with INVALID_REQUEST', () => {
+    expect(() => buildPath('/servers/:id', {})).toThrow(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+    expect(() => buildPath('/servers/:id', { id: '' })).toThrow(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+    expect(() => buildPath('/servers/:id', { id: '..' })).toThrow(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+    expect(() => buildPath('/servers/:id', { id: '.' })).toThrow(expect.objectContaining({ code: 'INVALID_REQUEST' }));
+  });
+});
+
+describe('toQueryString', () => {
+  it('encodes strings, numbers, booleans and dates', () => {
+    expect(toQueryString({
+      search: 'a&b',
+      page: 2,
+      active: false,
+      since: new Date('2026-01-01T00:00:00Z'),
+    })).toBe('?search=a%26b&page=2&active=false&since=2026-01-01T00%3A00%3A00.000Z');
+  });
+
+  it('repeats the key for arrays', () => {
+    expect(toQueryString({ tag: ['a', 'b'] })).toBe('?tag=a&tag=b');
+  });
+
+  it('leaves out empty values', () => {
+    expect(toQueryString({
+      a: undefined,
+      b: null,
+      c: '',
+      d: [],
+      e: Number.NaN,
+      f: new Date('invalid'),
+      g: [null, 'kept'],
+    })).toBe('?g=kept');
+    expect(toQueryString({})).toBe('');
+  });
+});
+
+describe('buildRequestURL', () => {
+  it('appends the query string to a url that already has one', () => {
+    expect(buildRequestURL('/servers?region=eu', { page: 1 })).toBe('/servers?region=eu&page=1');
+  });
+
+  it('fills the path params and appends the query string', () => {
+    expect(buildRequestURL('/servers/:id/metrics', { range: '1h' }, { id: 'eu-1' })).toBe('/servers/eu-1/metrics?range=1h');
+  });
+});
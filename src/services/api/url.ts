@@ -0,0 +1,66 @@
+// Request URLs: path params and query strings
+// Path params are encoded as a single segment, so an ID like 'eu/1' or '..' can't send the
+// request to another route. Query values are encoded the same way for every request.
+import type { ApiError, PathParamValues, QueryParams, QueryParamValue } from './types';
+
+const invalidRequest = (message: string): ApiError => ({ message, status: 0, code: 'INVALID_REQUEST' });
+
+// Fill the :params of a url, e.g. '/servers/:id/metrics'
+export const buildPath = (url: string, params: PathParamValues = {}): string => {
+  return url.replace(/:(\w+)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === '') {
+      throw invalidRequest(`Missing path parameter "${name}" for ${url}`);
+    }
+    // encodeURIComponent leaves dot segments alone, the URL parser would resolve them
+    const segment = String(value);
+    if (segment === '.' || segment === '..') {
+      throw invalidRequest(`Invalid path parameter "${name}" for ${url}`);
+    }
+    return encodeURIComponent(segment);
+  });
+};
+
+// Query string form of a value, null when it is left out
+const encodeQueryValue = (value: QueryParamValue): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return null;
+  }
+  return String(value);
+};
+
+// Query string of params, '' when nothing is left. Arrays repeat the key (?tag=a&tag=b),
+// dates are sent as ISO 8601 and booleans as true/false. undefined, null, '' and empty
+// arrays are left out.
+export const toQueryString = (params: QueryParams = {}): string => {
+  const query = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value as QueryParamValue];
+    values.forEach((item) => {
+      const encoded = encodeQueryValue(item);
+      if (encoded !== null) {
+        query.append(key, encoded);
+      }
+    });
+  });
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+// URL of a request: path params filled in and the query string appended
+export const buildRequestURL = (url: string, params?: QueryParams, pathParams?: PathParamValues): string => {
+  const path = pathParams ? buildPath(url, pathParams) : url;
+  const queryString = toQueryString(params);
+  if (!queryString) {
+    return path;
+  }
+  return path.includes('?') ? `${path}&${queryString.slice(1)}` : `${path}${queryString}`;
+};
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActivityTracker } from './activityTracker';
+
+const IDLE_TIMEOUT = 15 * 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('ActivityTracker', () => {
+  it('keeps an idle tab unlocked while the user works in another tab', () => {
+    const activeTab = new ActivityTracker();
+    const idleTab = new ActivityTracker();
+
+    for (let minute = 0; minute < 20; minute += 1) {
+      vi.advanceTimersByTime(60 * 1000);
+      activeTab.record();
+    }
+
+    expect(idleTab.isIdle(IDLE_TIMEOUT)).toBe(false);
+    expect(activeTab.isIdle(IDLE_TIMEOUT)).toBe(false);
+  });
+
+  it('is idle once no tab had activity within the timeout', () => {
+    const firstTab = new ActivityTracker();
+    const secondTab = new ActivityTracker();
+    firstTab.record();
+
+    vi.advanceTimersByTime(IDLE_TIMEOUT - 1);
+    expect(secondTab.isIdle(IDLE_TIMEOUT)).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(firstTab.isIdle(IDLE_TIMEOUT)).toBe(true);
+    expect(secondTab.isIdle(IDLE_TIMEOUT)).toBe(true);
+  });
+
+  it('counts activity of its own tab between throttled writes', () => {
+    const tab = new ActivityTracker();
+    tab.record();
+    vi.advanceTimersByTime(1000);
+    tab.record();
+
+    expect(tab.getLastActivity()).toBe(Date.now());
+  });
+});
@@ -0,0 +1,45 @@
+// Last user activity across tabs
+// Each tab writes its activity time to localStorage, throttled, and the idle check reads the
+// latest one. A background tab then doesn't lock the session while the user works in another.
+
+const STORAGE_KEY = 'lastActivity';
+
+// Activity is written at most this often, the idle timeout is minutes long
+const WRITE_INTERVAL = 5000;
+
+export class ActivityTracker {
+  private lastActivity = Date.now();
+  private lastWrite = 0;
+
+  // Record activity in this tab
+  public record(): void {
+    const now = Date.now();
+    this.lastActivity = now;
+    if (now - this.lastWrite < WRITE_INTERVAL) return;
+
+    this.lastWrite = now;
+    try {
+      localStorage.setItem(STORAGE_KEY, String(now));
+    } catch (error) {
+      console.error('Failed to share activity with other tabs:', error);
+    }
+  }
+
+  // Latest activity in any tab
+  public getLastActivity(): number {
+    let shared = 0;
+    try {
+      shared = Number(localStorage.getItem(STORAGE_KEY));
+    } catch {
+      // Only this tab's activity is known
+    }
+    return Number.isFinite(shared) ? Math.max(this.lastActivity, shared) : this.lastActivity;
+  }
+
+  public isIdle(timeout: number): boolean {
+    return Date.now() - this.getLastActivity() >= timeout;
+  }
+}
+
+// Export singleton instance
+export const activityTracker = new ActivityTracker();
@@ -1,6 +1,35 @@
 // Authentication service for the application
-import { authService, apiService, orchestratorService } from '@/services/api';
-import type { ApiResponse, AuthTokens } from '@/services/api';
+import {
+  authService,
+  apiService,
+  orchestratorService,
+  bffService,
+  authConfig,
+  oidcConfig,
+  sessionConfig,
+  accessControlConfig,
+} from '@/services/api';
+import type { ApiResponse, ApiError, AuthTokens, RequestConfig } from '@/services/api';
+import { sessionSync } from './sessionSync';
+import type { SessionSyncMessage } from './sessionSync';
+import { resolvePermissions, hasAllPermissions } from './permissions';
+import type { Permission, UserAccess } from './permissions';
+import { getTokenIdentity } from './jwt';
+import type { TokenIdentity } from './jwt';
+import { routeConfig, getSafeReturnTo } from './routes';
+import { createAuthorizationURL, completeAuthorization, refreshAuthorization, getOidcIssuer } from './oidc';
+import type { OidcTokenResponse } from './oidc';
+import { isTwoFactorChallenge } from './twoFactor';
+import type {
+  TwoFactorChallenge,
+  TwoFactorVerifyRequest,
+  TwoFactorEnrollment,
+  TwoFactorEnrollmentConfirmRequest,
+  TwoFactorEnrollmentConfirmation,
+} from './twoFactor';
+import { handleApiError } from '@/services/utils/apiHelpers';
+import { getFormErrors } from '@/services/utils/formErrors';
+import type { BffSessionResponse, HubTicketResponse } from '@/services/bff/types';
 
 // Auth-related types
 export interface LoginRequest {
@@ -12,82 +41,496 @@ export interface LoginResponse {
   token: string;
   expiresAt: string;
   tokenType: string;
+  refreshToken?: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
 }
 
 export interface User {
+  subject: string;
   username: string;
+  displayName: string;
+  issuer?: string;
+  expiresAt: number | null;
   isAuthenticated: boolean;
+  roles: string[];
+  permissions: Permission[];
 }
 
 export interface ValidationResponse {
   message: string;
   username: string;
   isAuthenticated: boolean;
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface ReauthenticateRequest {
+  password: string;
+}
+
+// Short-lived proof that the user just confirmed their password, sent with privileged calls
+export interface StepUpResponse {
+  stepUpToken: string;
+  expiresAt: string;
+}
+
+// Asks the user to confirm their password, settles once they confirmed or cancelled
+export type StepUpPrompt = () => Promise<void>;
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ForgotPasswordRequest {
+  login: string; // Username or email address
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export type PasswordFormField = 'login' | 'currentPassword' | 'newPassword' | 'token' | 'form';
+
+export type PasswordFieldErrors = Partial<Record<PasswordFormField, string>>;
+
+// Failed password call, with the login server's validation errors mapped onto form fields
+export interface PasswordFormError extends ApiError {
+  formErrors: PasswordFieldErrors;
 }
 
+// A login either starts a session or asks for a second factor
+export type LoginResult = LoginResponse | BffSessionResponse | TwoFactorChallenge;
+
+// How the current session was started
+// - password: username and password against the login server
+// - sso: OpenID Connect single sign-on with the identity provider
+export type AuthProvider = 'password' | 'sso';
+
+export type SessionEventType = 'login' | 'refresh' | 'logout';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  loginResponse: LoginResponse | null;
+  remote?: boolean; // The change happened in another tab
+}
+
+export type SessionListener = (event: SessionEvent) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
+// Notify listeners in this tab and, for local changes, the other open tabs
+const notifySessionChange = (event: SessionEvent, tokens: AuthTokens | null = null): void => {
+  sessionListeners.forEach(listener => listener(event));
+  if (!event.remote) {
+    sessionSync.publish(event.type, tokens, event.loginResponse);
+  }
+};
+
+// Roles and permissions of the current session, read from the token claims and
+// refined by validateToken
+let sessionAccess: UserAccess = { roles: [], permissions: [] };
+
+// Identity of the current session. In bff mode the token never reaches the browser and
+// the identity comes from the BFF instead of being decoded here.
+let sessionIdentity: TokenIdentity | null = null;
+
+const isBffMode = authConfig.mode === 'bff';
+
+// Work out the effective access, falling back to the configured default role when none is granted
+const resolveAccess = (roles: string[], granted: string[]): UserAccess => {
+  const { defaultRole } = accessControlConfig;
+  const effectiveRoles = roles.length === 0 && granted.length === 0 && defaultRole
+    ? [defaultRole]
+    : roles;
+
+  return {
+    roles: effectiveRoles,
+    permissions: resolvePermissions(effectiveRoles, granted),
+  };
+};
+
+// Read how the current session was started. Kept in localStorage so every tab trusts
+// the same issuer.
+const getSessionProvider = (): AuthProvider => {
+  if (typeof window === 'undefined') return 'password';
+  return localStorage.getItem('authProvider') === 'sso' ? 'sso' : 'password';
+};
+
+// Decode the identity of an access token, null when it is malformed or untrusted
+const decodeIdentity = (accessToken?: string): TokenIdentity | null => {
+  const issuer = getSessionProvider() === 'sso' ? getOidcIssuer() : sessionConfig.tokenIssuer;
+  return accessToken ? getTokenIdentity(accessToken, issuer) : null;
+};
+
+// Map identity provider tokens onto the login server's response shape
+const toLoginResponse = (tokens: OidcTokenResponse): LoginResponse => {
+  return {
+    token: tokens.access_token,
+    tokenType: tokens.token_type || 'Bearer',
+    expiresAt: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000).toISOString() : '',
+    refreshToken: tokens.refresh_token,
+  };
+};
+
+// Login server error codes of the password flows, with the field each one belongs to
+const PASSWORD_ERRORS: Record<string, { field: PasswordFormField; message: string }> = {
+  INVALID_CURRENT_PASSWORD: { field: 'currentPassword', message: 'Your current password is incorrect.' },
+  PASSWORD_TOO_SHORT: { field: 'newPassword', message: 'This password is too short.' },
+  PASSWORD_TOO_LONG: { field: 'newPassword', message: 'This password is too long.' },
+  PASSWORD_BREACHED: { field: 'newPassword', message: 'This password appears in a known data breach. Choose another one.' },
+  PASSWORD_REUSED: { field: 'newPassword', message: 'You have used this password before. Choose a new one.' },
+  PASSWORD_CONTAINS_USERNAME: { field: 'newPassword', message: 'The password must not contain your username.' },
+  RESET_TOKEN_INVALID: { field: 'token', message: 'This reset link is invalid or has already been used.' },
+  RESET_TOKEN_EXPIRED: { field: 'token', message: 'This reset link has expired. Request a new one.' },
+};
+
+const PASSWORD_FIELDS = ['login', 'currentPassword', 'newPassword', 'token'] as const;
+
+// Current step-up grant, the prompt the UI registered for it and the pending prompt
+let stepUpGrant: { token: string; expiresAt: number } | null = null;
+let stepUpPrompt: StepUpPrompt | null = null;
+let stepUpInFlight: Promise<void> | null = null;
+
+// Shared refresh call, so concurrent 401s across all API services wait on a single request
+let refreshInFlight: Promise<AuthTokens | null> | null = null;
+
+// Apply tokens to every API service instance
+const setAuthTokens = (tokens: AuthTokens, identity: TokenIdentity): void => {
+  apiService.setAuthTokens(tokens);
+  authService.setAuthTokens(tokens);
+  orchestratorService.setAuthTokens(tokens);
+  sessionIdentity = identity;
+  sessionAccess = resolveAccess(identity.roles, identity.permissions);
+};
+
+// Apply a cookie session issued by the BFF
+const applyBffSession = (session: BffSessionResponse): void => {
+  sessionIdentity = session.identity;
+  sessionAccess = resolveAccess(session.identity.roles, session.identity.permissions);
+};
+
+// Mirror the session in a cookie so the middleware can check it before render
+const writeSessionCookie = (expiresAt: number | null): void => {
+  if (typeof document === 'undefined') return;
+
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  const expires = expiresAt !== null ? `; expires=${new Date(expiresAt).toUTCString()}` : '';
+  document.cookie = `${routeConfig.sessionCookieName}=${expiresAt ?? 1}${expires}; path=/; SameSite=Lax${secure}`;
+};
+
+const clearSessionCookie = (): void => {
+  if (typeof document === 'undefined') return;
+  document.cookie = `${routeConfig.sessionCookieName}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/; SameSite=Lax`;
+};
+
+// Apply the tokens from a login response and persist them
+const storeSession = (
+  loginResponse: LoginResponse,
+  type: SessionEventType,
+  previousRefreshToken?: string
+): AuthTokens | null => {
+  // Refuse tokens that don't decode into a usable identity
+  const identity = decodeIdentity(loginResponse.token);
+  if (!identity) {
+    console.error('Received a malformed or untrusted access token');
+    return null;
+  }
+
+  const authTokens: AuthTokens = {
+    accessToken: loginResponse.token,
+    tokenType: loginResponse.tokenType || 'Bearer',
+    // Keep the current refresh token if the server doesn't rotate it
+    refreshToken: loginResponse.refreshToken || previousRefreshToken,
+  };
+  setAuthTokens(authTokens, identity);
+
+  // Store tokens in localStorage for persistence
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('authTokens', JSON.stringify(authTokens));
+    localStorage.setItem('loginResponse', JSON.stringify(loginResponse));
+  }
+  writeSessionCookie(AuthService.getSessionExpiry());
+
+  notifySessionChange({ type, loginResponse }, authTokens);
+  return authTokens;
+};
+
+// Apply a BFF session and persist its non-secret parts, the tokens stay in httpOnly cookies
+const storeBffSession = (session: BffSessionResponse, type: SessionEventType): BffSessionResponse => {
+  applyBffSession(session);
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('authSession', JSON.stringify(session));
+  }
+
+  notifySessionChange({ type, loginResponse: null });
+  return session;
+};
+
+// Clear tokens from services and localStorage
+const clearSession = (): void => {
+  sessionAccess = { roles: [], permissions: [] };
+  sessionIdentity = null;
+  stepUpGrant = null;
+  apiService.clearAuthTokens();
+  authService.clearAuthTokens();
+  orchestratorService.clearAuthTokens();
+  apiService.clearCache();
+  authService.clearCache();
+  orchestratorService.clearCache();
+
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem('authTokens');
+    localStorage.removeItem('loginResponse');
+    localStorage.removeItem('authSession');
+    localStorage.removeItem('authProvider');
+    localStorage.removeItem('sessionLocked');
+  }
+  clearSessionCookie();
+};
+
+// Converge on the session another tab logged in, refreshed or logged out
+const applyRemoteSession = (message: SessionSyncMessage): void => {
+  if (isBffMode) {
+    // The cookies are shared, only the stored identity needs picking up
+    const session = message.type === 'logout' ? null : AuthService.getStoredBffSession();
+    if (session) {
+      applyBffSession(session);
+    } else {
+      clearSession();
+    }
+  } else {
+    const identity = decodeIdentity(message.tokens?.accessToken);
+    if (message.type === 'logout' || !message.tokens || !identity) {
+      clearSession();
+    } else {
+      setAuthTokens(message.tokens, identity);
+    }
+  }
+  notifySessionChange({ type: message.type, loginResponse: message.loginResponse, remote: true });
+};
+
 // Authentication service class
 export class AuthService {
-  // Login user with username/password
-  static async login(credentials: LoginRequest): Promise<ApiResponse<LoginResponse>> {
-    const response = await authService.post<LoginResponse>('/login/authenticate', credentials);
-    
-    // Automatically set tokens in the API service after successful login
-    if (response.success && response.data) {
-      const authTokens: AuthTokens = {
-        accessToken: response.data.token,
-        tokenType: response.data.tokenType || 'Bearer',
-        // Note: Login server doesn't provide refresh tokens yet
+  // Login user with username/password. Accounts with two-factor authentication get a
+  // challenge back instead of a session, finish it with verifyTwoFactor.
+  static async login(credentials: LoginRequest): Promise<ApiResponse<LoginResult>> {
+    const response = isBffMode
+      ? await bffService.post<LoginResult>('/login', credentials, { skipAuthRefresh: true })
+      : await authService.post<LoginResult>('/login/authenticate', credentials, { skipAuthRefresh: true });
+
+    return AuthService.startSession(response);
+  }
+
+  // Quick login for testing, development builds only. The check is written out inline
+  // so the rest of the method is dropped from other builds.
+  static async quickLogin(): Promise<ApiResponse<LoginResult>> {
+    if (process.env.NEXT_PUBLIC_APP_ENV !== 'development') {
+      const error: ApiError = {
+        message: 'Quick login is only available in development builds',
+        status: 404,
+        code: 'NOT_FOUND',
       };
-      apiService.setAuthTokens(authTokens);
-      authService.setAuthTokens(authTokens);
-      orchestratorService.setAuthTokens(authTokens);
-      
-      // Store tokens in localStorage for persistence
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('authTokens', JSON.stringify(authTokens));
-        localStorage.setItem('loginResponse', JSON.stringify(response.data));
+      throw error;
+    }
+
+    const response = isBffMode
+      ? await bffService.post<LoginResult>('/quick-login', undefined, { skipAuthRefresh: true })
+      : await authService.post<LoginResult>('/login/quick-login', undefined, { skipAuthRefresh: true });
+
+    return AuthService.startSession(response);
+  }
+
+  // Complete a two-factor challenge with an authenticator or recovery code
+  static async verifyTwoFactor(request: TwoFactorVerifyRequest): Promise<ApiResponse<LoginResult>> {
+    const response = isBffMode
+      ? await bffService.post<LoginResult>('/2fa/verify', request, { skipAuthRefresh: true })
+      : await authService.post<LoginResult>('/login/2fa/verify', request, { skipAuthRefresh: true });
+
+    return AuthService.startSession(response);
+  }
+
+  // Start enrolling an authenticator app for the current user
+  static async startTwoFactorEnrollment(): Promise<ApiResponse<TwoFactorEnrollment>> {
+    return authService.post<TwoFactorEnrollment>('/login/2fa/enroll');
+  }
+
+  // Confirm the enrollment with a code from the authenticator, returns the recovery codes
+  static async confirmTwoFactorEnrollment(code: string): Promise<ApiResponse<TwoFactorEnrollmentConfirmation>> {
+    const request: TwoFactorEnrollmentConfirmRequest = { code };
+    return authService.post<TwoFactorEnrollmentConfirmation>('/login/2fa/enroll/confirm', request);
+  }
+
+  // User-facing message for a failed login or two-factor attempt
+  static getLoginErrorMessage(error: ApiError): string {
+    const details = (error.details || {}) as { lockedUntil?: string; retryAfter?: number };
+
+    switch (error.status) {
+      case 401:
+        return error.code === 'INVALID_2FA_CODE'
+          ? 'The verification code is incorrect.'
+          : error.message || 'Invalid username or password.';
+      case 423: {
+        const lockedUntil = details.lockedUntil ? new Date(details.lockedUntil) : null;
+        return lockedUntil && !Number.isNaN(lockedUntil.getTime())
+          ? `Your account is locked after too many failed attempts. Try again after ${lockedUntil.toLocaleTimeString()}.`
+          : 'Your account is locked after too many failed attempts. Try again later.';
       }
+      case 429:
+        return typeof details.retryAfter === 'number'
+          ? `Too many attempts. Try again in ${Math.ceil(details.retryAfter)} seconds.`
+          : 'Too many attempts. Try again later.';
+      default:
+        return handleApiError(error);
+    }
+  }
+
+  // Apply the session issued by a login call, challenges are passed back untouched
+  private static startSession(response: ApiResponse<LoginResult>): ApiResponse<LoginResult> {
+    const data = response.data;
+    if (!response.success || !data || isTwoFactorChallenge(data)) {
+      return response;
+    }
+
+    if ('identity' in data) {
+      storeBffSession(data, 'login');
+    } else if (!storeSession(data, 'login')) {
+      return AuthService.invalidTokenResponse(response.status);
     }
-    
     return response;
   }
 
-  // Quick login for testing
-  static async quickLogin(): Promise<ApiResponse<LoginResponse>> {
-    const response = await authService.post<LoginResponse>('/login/quick-login');
-    
-    // Automatically set tokens after successful quick login
-    if (response.success && response.data) {
-      const authTokens: AuthTokens = {
-        accessToken: response.data.token,
-        tokenType: response.data.tokenType || 'Bearer',
+  // Check if single sign-on is configured, it needs the browser to hold the tokens
+  static isSsoAvailable(): boolean {
+    return oidcConfig.enabled && !isBffMode;
+  }
+
+  // Send the browser to the identity provider to sign in, it comes back on the callback route
+  static async beginSsoLogin(returnTo?: string): Promise<void> {
+    if (!AuthService.isSsoAvailable()) {
+      const error: ApiError = {
+        message: 'Single sign-on is not configured',
+        status: 400,
+        code: 'SSO_UNAVAILABLE',
       };
-      apiService.setAuthTokens(authTokens);
-      authService.setAuthTokens(authTokens);
-      orchestratorService.setAuthTokens(authTokens);
-      
-      // Store tokens in localStorage
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('authTokens', JSON.stringify(authTokens));
-        localStorage.setItem('loginResponse', JSON.stringify(response.data));
+      throw error;
+    }
+    window.location.assign(await createAuthorizationURL(returnTo));
+  }
+
+  // Finish single sign-on from the callback URL parameters and start the session.
+  // Returns the path to continue to; throws an ApiError when the response can't be trusted.
+  static async completeSsoLogin(params: URLSearchParams): Promise<string> {
+    const { tokens, returnTo } = await completeAuthorization(params);
+
+    localStorage.setItem('authProvider', 'sso');
+    if (!storeSession(toLoginResponse(tokens), 'login')) {
+      localStorage.removeItem('authProvider');
+      const error: ApiError = {
+        message: 'The identity provider returned an invalid access token',
+        status: 401,
+        code: 'SSO_INVALID_TOKEN',
+      };
+      throw error;
+    }
+
+    return getSafeReturnTo(returnTo);
+  }
+
+  // Exchange the refresh token for new tokens. Concurrent callers share one request;
+  // if it fails the user is logged out and sent to the login page.
+  // A request that failed with an access token that has been replaced since, e.g. by a
+  // refresh that finished meanwhile, just retries with the current tokens.
+  static async refreshTokens(failedAccessToken?: string): Promise<AuthTokens | null> {
+    const current = apiService.getAuthTokens();
+    if (!refreshInFlight && failedAccessToken && current?.accessToken && current.accessToken !== failedAccessToken) {
+      return current;
+    }
+    if (!refreshInFlight) {
+      refreshInFlight = AuthService.performTokenRefresh().finally(() => {
+        refreshInFlight = null;
+      });
+    }
+    return refreshInFlight;
+  }
+
+  private static async performTokenRefresh(): Promise<AuthTokens | null> {
+    const refreshToken = apiService.getAuthTokens()?.refreshToken;
+
+    if (isBffMode) {
+      try {
+        // The BFF reads the refresh token from its cookie and rotates the session cookies
+        const response = await bffService.post<BffSessionResponse>('/refresh', undefined, {
+          skipAuthRefresh: true,
+        });
+        if (response.success && response.data) {
+          storeBffSession(response.data, 'refresh');
+          return {};
+        }
+      } catch (error) {
+        console.error('Session refresh failed:', error);
+      }
+    } else if (refreshToken) {
+      try {
+        const request: RefreshTokenRequest = { refreshToken };
+        const response = getSessionProvider() === 'sso'
+          ? await AuthService.refreshSsoSession(refreshToken)
+          : await authService.post<LoginResponse>('/login/refresh', request, { skipAuthRefresh: true });
+        const tokens = response.success && response.data
+          ? storeSession(response.data, 'refresh', refreshToken)
+          : null;
+        if (tokens) {
+          return tokens;
+        }
+      } catch (error) {
+        console.error('Token refresh failed:', error);
       }
     }
-    
-    return response;
+
+    await AuthService.logout();
+    if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+      window.location.assign('/login');
+    }
+    return null;
+  }
+
+  // Refresh a single sign-on session at the identity provider
+  private static async refreshSsoSession(refreshToken: string): Promise<ApiResponse<LoginResponse>> {
+    const response = await refreshAuthorization(refreshToken);
+    return {
+      ...response,
+      data: response.data ? toLoginResponse(response.data) : null,
+    };
+  }
+
+  // Failed response for a login that returned a malformed or untrusted token
+  private static invalidTokenResponse(status: number): ApiResponse<LoginResult> {
+    return {
+      data: null,
+      success: false,
+      status,
+      message: 'The login server returned an invalid token',
+    };
   }
 
   // Logout user
   static async logout(): Promise<ApiResponse<void>> {
-    // Clear tokens from services
-    apiService.clearAuthTokens();
-    authService.clearAuthTokens();
-    orchestratorService.clearAuthTokens();
-    
-    // Clear tokens from localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('authTokens');
-      localStorage.removeItem('loginResponse');
+    if (isBffMode) {
+      // Best effort, the local session is cleared either way
+      try {
+        await bffService.post<void>('/logout');
+      } catch (error) {
+        console.error('Failed to clear the server session:', error);
+      }
     }
+
+    clearSession();
+    notifySessionChange({ type: 'logout', loginResponse: null });
     
     return {
       data: undefined,
@@ -99,8 +542,24 @@ export class AuthService {
 
   // Validate current token
   static async validateToken(): Promise<ApiResponse<ValidationResponse>> {
+    // The login server doesn't know identity provider tokens, the backends check them on use
+    const identity = sessionIdentity;
+    if (getSessionProvider() === 'sso' && identity) {
+      return {
+        data: { message: 'Signed in with single sign-on', username: identity.username, isAuthenticated: true },
+        success: true,
+        status: 200,
+      };
+    }
+
     try {
-      return await authService.get<ValidationResponse>('/login/validate');
+      const response = await authService.get<ValidationResponse>('/login/validate');
+      // The server's view of roles and permissions takes precedence over the token claims
+      const { roles = [], permissions = [] } = response.data || {};
+      if (response.success && (roles.length > 0 || permissions.length > 0)) {
+        sessionAccess = resolveAccess(roles, permissions);
+      }
+      return response;
     } catch (error) {
       // For 401 errors, return a failed response instead of throwing
       const apiError = error as { status?: number; message?: string };
@@ -117,20 +576,177 @@ export class AuthService {
     }
   }
 
+  // Get roles and permissions of the current session
+  static getAccess(): UserAccess {
+    return sessionAccess;
+  }
+
+  // Check if the current session has every given permission
+  static hasPermission(required: Permission | Permission[]): boolean {
+    return hasAllPermissions(sessionAccess.permissions, required);
+  }
+
+  // Throw a 403 ApiError when the current session lacks a permission
+  static requirePermission(required: Permission | Permission[]): void {
+    if (!AuthService.hasPermission(required)) {
+      const error: ApiError = {
+        message: 'You do not have permission to perform this action.',
+        status: 403,
+        code: 'FORBIDDEN',
+        details: { required },
+      };
+      throw error;
+    }
+  }
+
+  // Confirm the current user's password. Unlocks the session and grants step-up for
+  // privileged actions for a short while.
+  static async reauthenticate(password: string): Promise<ApiResponse<StepUpResponse>> {
+    const request: ReauthenticateRequest = { password };
+    const response = await authService.post<StepUpResponse>('/login/reauthenticate', request, {
+      skipAuthRefresh: true,
+    });
+
+    if (response.success && response.data) {
+      const serverExpiry = new Date(response.data.expiresAt).getTime();
+      const windowEnd = Date.now() + sessionConfig.stepUpWindow;
+      stepUpGrant = {
+        token: response.data.stepUpToken,
+        expiresAt: Number.isNaN(serverExpiry) ? windowEnd : Math.min(serverExpiry, windowEnd),
+      };
+      AuthService.setLocked(false);
+    }
+    return response;
+  }
+
+  // Register the UI that asks for the password before privileged actions
+  static setStepUpPrompt(prompt?: StepUpPrompt): void {
+    stepUpPrompt = prompt || null;
+  }
+
+  // Check if the password was confirmed recently enough for privileged actions
+  static hasRecentStepUp(): boolean {
+    return !!stepUpGrant && stepUpGrant.expiresAt > Date.now();
+  }
+
+  // Make sure the user recently confirmed their password, prompting when needed, and
+  // return the request config carrying the proof. Throws a 401 ApiError when declined.
+  static async requireStepUp(): Promise<RequestConfig> {
+    // Concurrent privileged calls share a single prompt
+    if (!AuthService.hasRecentStepUp() && stepUpPrompt) {
+      if (!stepUpInFlight) {
+        stepUpInFlight = stepUpPrompt().finally(() => {
+          stepUpInFlight = null;
+        });
+      }
+      await stepUpInFlight;
+    }
+
+    const grant = stepUpGrant;
+    if (!grant || grant.expiresAt <= Date.now()) {
+      const error: ApiError = {
+        message: 'Confirm your password to perform this action.',
+        status: 401,
+        code: 'STEP_UP_REQUIRED',
+      };
+      throw error;
+    }
+
+    return { headers: { 'X-Step-Up-Token': grant.token } };
+  }
+
+  // Lock or unlock the UI after inactivity. The flag is shared with the other tabs and
+  // survives a reload, so neither gets around the lock.
+  static setLocked(locked: boolean): void {
+    if (locked) {
+      stepUpGrant = null;
+    }
+    if (typeof window !== 'undefined') {
+      if (locked) {
+        localStorage.setItem('sessionLocked', 'true');
+      } else {
+        localStorage.removeItem('sessionLocked');
+      }
+    }
+  }
+
+  static isLocked(): boolean {
+    return typeof window !== 'undefined' &&
+      localStorage.getItem('sessionLocked') === 'true' &&
+      AuthService.isAuthenticated();
+  }
+
+  // Change the signed-in user's password
+  static async changePassword(request: ChangePasswordRequest): Promise<ApiResponse<void>> {
+    try {
+      return await authService.post<void>('/login/password/change', request);
+    } catch (error) {
+      throw AuthService.toPasswordFormError(error as ApiError);
+    }
+  }
+
+  // Email a reset link. The server answers the same whether or not the account exists.
+  static async requestPasswordReset(request: ForgotPasswordRequest): Promise<ApiResponse<void>> {
+    try {
+      return await authService.post<void>('/login/password/forgot', request, { skipAuthRefresh: true });
+    } catch (error) {
+      throw AuthService.toPasswordFormError(error as ApiError);
+    }
+  }
+
+  // Set a new password with the token from a reset link
+  static async resetPassword(request: ResetPasswordRequest): Promise<ApiResponse<void>> {
+    try {
+      return await authService.post<void>('/login/password/reset', request, { skipAuthRefresh: true });
+    } catch (error) {
+      throw AuthService.toPasswordFormError(error as ApiError);
+    }
+  }
+
+  // Map the validation errors of a failed password call onto form fields: the login
+  // server's error codes and its field errors
+  static getPasswordFieldErrors(error: ApiError): PasswordFieldErrors {
+    return getFormErrors(error, { fields: PASSWORD_FIELDS, codes: PASSWORD_ERRORS });
+  }
+
+  private static toPasswordFormError(error: ApiError): PasswordFormError {
+    return { ...error, formErrors: AuthService.getPasswordFieldErrors(error) };
+  }
+
   // Initialize authentication state from localStorage
   static initializeAuth(): void {
+    if (typeof window !== 'undefined' && isBffMode) {
+      const session = AuthService.getStoredBffSession();
+      if (session) {
+        const expiresAt = AuthService.getSessionExpiry();
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+          clearSession();
+        } else {
+          applyBffSession(session);
+        }
+      }
+      return;
+    }
+
     if (typeof window !== 'undefined') {
       const storedTokens = localStorage.getItem('authTokens');
       if (storedTokens) {
         try {
           const tokens: AuthTokens = JSON.parse(storedTokens);
-          apiService.setAuthTokens(tokens);
-          authService.setAuthTokens(tokens);
-          orchestratorService.setAuthTokens(tokens);
+          const identity = decodeIdentity(tokens.accessToken);
+
+          // A malformed, tampered or expired token can't be trusted, treat the session as logged out
+          const expiresAt = AuthService.getSessionExpiry() ?? identity?.expiresAt ?? null;
+          if (!identity || (expiresAt !== null && expiresAt <= Date.now())) {
+            clearSession();
+            return;
+          }
+
+          setAuthTokens(tokens, identity);
+          writeSessionCookie(expiresAt);
         } catch (error) {
           console.error('Error parsing stored auth tokens:', error);
-          localStorage.removeItem('authTokens');
-          localStorage.removeItem('loginResponse');
+          clearSession();
         }
       }
     }
@@ -138,15 +754,98 @@ export class AuthService {
 
   // Check if user is authenticated
   static isAuthenticated(): boolean {
+    if (isBffMode) {
+      return !!sessionIdentity;
+    }
     const tokens = apiService.getAuthTokens();
     return !!tokens?.accessToken;
   }
 
+  // Check if the session can be extended through a refresh
+  static canRefreshSession(): boolean {
+    return isBffMode || !!apiService.getAuthTokens()?.refreshToken;
+  }
+
+  // Token for the SignalR hub: a short-lived ticket in bff mode, the access token otherwise
+  static async getHubAccessToken(): Promise<string> {
+    if (isBffMode) {
+      const response = await bffService.post<HubTicketResponse>('/hub-ticket');
+      return response.data?.ticket || '';
+    }
+    return apiService.getAuthTokens()?.accessToken || '';
+  }
+
+  // Get how the current session was started
+  static getAuthProvider(): AuthProvider | null {
+    return AuthService.isAuthenticated() ? getSessionProvider() : null;
+  }
+
   // Get current tokens
   static getCurrentTokens(): AuthTokens | null {
     return apiService.getAuthTokens();
   }
 
+  // Get the user described by the current access token
+  static getCurrentUser(): User | null {
+    const identity = sessionIdentity;
+    if (!identity) {
+      return null;
+    }
+
+    return {
+      subject: identity.subject,
+      username: identity.username,
+      displayName: identity.displayName,
+      issuer: identity.issuer,
+      expiresAt: identity.expiresAt,
+      isAuthenticated: true,
+      ...sessionAccess,
+    };
+  }
+
+  // Get the session expiry as a timestamp (ms), null when unknown
+  static getSessionExpiry(): number | null {
+    const expiresAt = isBffMode
+      ? AuthService.getStoredBffSession()?.expiresAt
+      : AuthService.getStoredLoginResponse()?.expiresAt;
+    const timestamp = expiresAt ? new Date(expiresAt).getTime() : NaN;
+    if (!Number.isNaN(timestamp)) {
+      return timestamp;
+    }
+    // Fall back to the exp claim of the token
+    return sessionIdentity?.expiresAt ?? null;
+  }
+
+  // Check if the session expires within the given time (ms)
+  static isSessionExpiring(withinMs: number): boolean {
+    const expiresAt = AuthService.getSessionExpiry();
+    return expiresAt !== null && expiresAt - Date.now() <= withinMs;
+  }
+
+  // Subscribe to login, refresh and logout events, returns an unsubscribe function
+  static subscribe(listener: SessionListener): () => void {
+    sessionListeners.add(listener);
+    return () => {
+      sessionListeners.delete(listener);
+    };
+  }
+
+  // Get the stored BFF session (bff mode)
+  static getStoredBffSession(): BffSessionResponse | null {
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem('authSession');
+      if (stored) {
+        try {
+          return JSON.parse(stored);
+        } catch (error) {
+          console.error('Error parsing stored session:', error);
+          return null;
+        }
+      }
+    }
+    return null;
+  }
+
   // Get stored login response for user info
   static getStoredLoginResponse(): LoginResponse | null {
     if (typeof window !== 'undefined') {
@@ -168,10 +867,60 @@ export class AuthService {
 export const {
   login,
   quickLogin,
+  verifyTwoFactor,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  getLoginErrorMessage,
+  isSsoAvailable,
+  beginSsoLogin,
+  completeSsoLogin,
+  refreshTokens,
   logout,
   validateToken,
   initializeAuth,
   isAuthenticated,
   getCurrentTokens,
+  getCurrentUser,
+  getAuthProvider,
+  canRefreshSession,
+  getHubAccessToken,
   getStoredLoginResponse,
-} = AuthService;
\ No newline at end of file
+  getStoredBffSession,
+  getSessionExpiry,
+  isSessionExpiring,
+  getAccess,
+  hasPermission,
+  requirePermission,
+  reauthenticate,
+  hasRecentStepUp,
+  requireStepUp,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  getPasswordFieldErrors,
+} = AuthService;
+
+// Recover from 401s on every API service instance through the shared refresh
+apiService.setTokenRefreshHandler(refreshTokens);
+authService.setTokenRefreshHandler(refreshTokens);
+orchestratorService.setTokenRefreshHandler(refreshTokens);
+
+// Keep this tab in sync with logins, refreshes and logouts in other tabs
+sessionSync.start(applyRemoteSession);
+
+// Refuse to start destructive orchestrator calls on a token that is about to expire
+orchestratorService.addInterceptor({
+  name: 'sessionExpiryGuard',
+  onRequest: (context) => {
+    const method = context.options.method || 'GET';
+    if (method !== 'GET' && isSessionExpiring(sessionConfig.destructiveActionMinRemaining)) {
+      const error: ApiError = {
+        message: 'Your session is about to expire. Extend it before running this action.',
+        status: 401,
+        code: 'SESSION_EXPIRING',
+      };
+      throw error;
+    }
+    return context;
+  },
+});
@@ -0,0 +1,191 @@
+// "View as player" impersonation for support staff
+// The admin session stays in place. While impersonating, every request carries the
+// impersonation token and id, so the backends answer as the player and can attribute
+// each call to the staff member in their audit log.
+import { apiService, authService, orchestratorService } from '@/services/api';
+import type { ApiResponse, ApiError, ApiInterceptor } from '@/services/api';
+import { AuthService } from './authService';
+
+export interface ImpersonationRequest {
+  userId: string;
+  reason: string;
+}
+
+export interface ImpersonatedPlayer {
+  id: string;
+  username: string;
+  displayName?: string;
+}
+
+export interface ImpersonationSession {
+  impersonationId: string;
+  token: string;
+  expiresAt: string;
+  player: ImpersonatedPlayer;
+  reason: string;
+  startedAt: string;
+}
+
+export type ImpersonationListener = (session: ImpersonationSession | null) => void;
+
+// Request headers read by the backends
+export const IMPERSONATION_HEADERS = {
+  token: 'X-Impersonation-Token',
+  id: 'X-Impersonation-Id',
+};
+
+// Kept per tab, so impersonation never leaks into the admin's other tabs
+const STORAGE_KEY = 'impersonationSession';
+
+const listeners = new Set<ImpersonationListener>();
+
+let currentSession: ImpersonationSession | null = null;
+
+const notifyChange = (): void => {
+  listeners.forEach(listener => listener(currentSession));
+};
+
+const setSession = (session: ImpersonationSession | null): void => {
+  currentSession = session;
+  if (typeof window !== 'undefined') {
+    if (session) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  notifyChange();
+};
+
+const readStoredSession = (): ImpersonationSession | null => {
+  if (typeof window === 'undefined') return null;
+
+  const stored = sessionStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error parsing stored impersonation session:', error);
+    return null;
+  }
+};
+
+const isExpired = (session: ImpersonationSession): boolean => {
+  const expiresAt = new Date(session.expiresAt).getTime();
+  return !Number.isNaN(expiresAt) && expiresAt <= Date.now();
+};
+
+// Tag every request made while impersonating
+const impersonationInterceptor: ApiInterceptor = {
+  name: 'impersonation',
+  onRequest: (context) => {
+    const session = ImpersonationService.getCurrent();
+    if (!session) {
+      return context;
+    }
+
+    return {
+      ...context,
+      options: {
+        ...context.options,
+        headers: {
+          ...context.options.headers,
+          [IMPERSONATION_HEADERS.token]: session.token,
+          [IMPERSONATION_HEADERS.id]: session.impersonationId,
+        },
+      },
+    };
+  },
+};
+
+// Impersonation service class
+export class ImpersonationService {
+  // Start viewing the admin panel as a player. The reason is recorded in the audit log.
+  static async start(request: ImpersonationRequest): Promise<ApiResponse<ImpersonationSession>> {
+    AuthService.requirePermission('users:impersonate');
+
+    if (!request.reason.trim()) {
+      const error: ApiError = {
+        message: 'A reason is required to view as a player.',
+        status: 400,
+        code: 'VALIDATION_ERROR',
+      };
+      throw error;
+    }
+
+    // End a running impersonation first, so its audit entry is closed
+    if (currentSession) {
+      await ImpersonationService.stop();
+    }
+
+    const response = await authService.post<ImpersonationSession>('/login/impersonate', request);
+    if (response.success && response.data) {
+      setSession(response.data);
+    }
+    return response;
+  }
+
+  // Stop impersonating. The local state is cleared even if the server call fails.
+  static async stop(): Promise<void> {
+    const session = currentSession;
+    if (!session) return;
+
+    setSession(null);
+    try {
+      await authService.post<void>('/login/impersonate/:id/end', undefined, {
+        pathParams: { id: session.impersonationId },
+      });
+    } catch (error) {
+      console.error('Failed to end the impersonation on the server:', error);
+    }
+  }
+
+  // Get the running impersonation, null when not impersonating or once it expired
+  static getCurrent(): ImpersonationSession | null {
+    if (currentSession && isExpired(currentSession)) {
+      setSession(null);
+    }
+    return currentSession;
+  }
+
+  static isImpersonating(): boolean {
+    return ImpersonationService.getCurrent() !== null;
+  }
+
+  // Restore the impersonation of this tab after a reload
+  static initialize(): void {
+    const stored = readStoredSession();
+    currentSession = stored && !isExpired(stored) && AuthService.isAuthenticated() ? stored : null;
+    if (!currentSession && typeof window !== 'undefined') {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  // Subscribe to impersonation changes, returns an unsubscribe function
+  static subscribe(listener: ImpersonationListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
+
+// Export individual methods for convenience
+export const {
+  start: startImpersonation,
+  stop: stopImpersonation,
+  getCurrent: getCurrentImpersonation,
+  isImpersonating,
+} = ImpersonationService;
+
+// Login server calls (refresh, re-authentication) stay the admin's own
+apiService.addInterceptor(impersonationInterceptor);
+orchestratorService.addInterceptor(impersonationInterceptor);
+
+// Impersonation never outlives the admin session
+AuthService.subscribe((event) => {
+  if (event.type === 'logout') {
+    setSession(null);
+  }
+});
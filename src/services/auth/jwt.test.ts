@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { decodeJwt, getTokenIdentity } from './jwt';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const token = (claims: Record<string, unknown>, header: Record<string, unknown> = { alg: 'RS256', typ: 'JWT' }): string => (
+  `${encode(header)}.${encode(claims)}.signature`
+);
+
+describe('decodeJwt', () => {
+  it('decodes the header and claims', () => {
+    expect(decodeJwt(token({ sub: '42', exp: 1700000000 }))).toEqual({
+      header: { alg: 'RS256', typ: 'JWT' },
+      claims: { sub: '42', exp: 1700000000 },
+    });
+  });
+
+  it('decodes base64url segments holding UTF-8', () => {
+    expect(decodeJwt(token({ name: 'Zoë ~?>' }))?.claims.name).toBe('Zoë ~?>');
+  });
+
+  it('rejects malformed and unsigned tokens', () => {
+    expect(decodeJwt('not-a-token')).toBeNull();
+    expect(decodeJwt(`${encode({ alg: 'RS256' })}.${encode({ sub: '1' })}.`)).toBeNull();
+    expect(decodeJwt(`${encode({ alg: 'RS256' })}.not-json.signature`)).toBeNull();
+    expect(decodeJwt(token({ sub: '1' }, { alg: 'none' }))).toBeNull();
+    expect(decodeJwt(token({ sub: '1' }, { typ: 'JWT' }))).toBeNull();
+  });
+
+  it('rejects time claims that aren\'t numbers', () => {
+    expect(decodeJwt(token({ sub: '1', exp: '1700000000' }))).toBeNull();
+  });
+});
+
+describe('getTokenIdentity', () => {
+  it('reads the identity from the short claim names', () => {
+    expect(getTokenIdentity(token({
+      sub: '42',
+      preferred_username: 'jdoe',
+      name: 'Jane Doe',
+      role: 'admin',
+      permissions: ['users:view'],
+      scope: 'sessions:view world:view',
+      iss: 'https://login.test',
+      exp: 1700000000,
+    }))).toEqual({
+      subject: '42',
+      username: 'jdoe',
+      displayName: 'Jane Doe',
+      roles: ['admin'],
+      permissions: ['users:view', 'sessions:view', 'world:view'],
+      issuer: 'https://login.test',
+      expiresAt: 1700000000000,
+    });
+  });
+
+  it('reads the WS-Federation claim types', () => {
+    const identity = getTokenIdentity(token({
+      'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier': '7',
+      'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name': 'operator',
+      'http://schemas.microsoft.com/ws/2008/06/identity/claims/role': ['moderator', 'viewer'],
+    }));
+
+    expect(identity).toMatchObject({
+      subject: '7',
+      username: 'operator',
+      displayName: 'operator',
+      roles: ['moderator', 'viewer'],
+      expiresAt: null,
+    });
+  });
+
+  it('rejects tokens without a subject or from another issuer', () => {
+    expect(getTokenIdentity(token({ role: 'admin' }))).toBeNull();
+    expect(getTokenIdentity(token({ sub: '42', iss: 'https://evil.test' }), 'https://login.test')).toBeNull();
+  });
+});
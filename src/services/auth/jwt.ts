@@ -0,0 +1,160 @@
+// Client-side JWT decoding
+// The browser can't verify token signatures, the login server does that through
+// /login/validate. Decoding here only reads the claims and rejects tokens that are
+// malformed, unsigned or issued by someone else.
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  claims: JwtClaims;
+}
+
+// Identity carried by an access token
+export interface TokenIdentity {
+  subject: string;
+  username: string;
+  displayName: string;
+  roles: string[];
+  permissions: string[];
+  issuer?: string;
+  expiresAt: number | null;
+}
+
+// Claim names in order of preference. The login server is ASP.NET based and may use
+// the long WS-Federation claim types instead of the short JWT ones.
+const CLAIM_TYPES = {
+  subject: [
+    'sub',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/nameidentifier',
+  ],
+  username: [
+    'preferred_username',
+    'unique_name',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+    'name',
+  ],
+  displayName: [
+    'name',
+    'given_name',
+    'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  ],
+  roles: [
+    'role',
+    'roles',
+    'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+  ],
+  permissions: ['permissions', 'permission'],
+};
+
+// Decode a base64url segment into a UTF-8 string
+const decodeSegment = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Read the first string claim out of the candidates
+const readString = (claims: JwtClaims, names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = claims[name];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+// Read and merge string or string[] claims out of the candidates
+const readList = (claims: JwtClaims, names: string[]): string[] => {
+  const values = new Set<string>();
+  names.forEach((name) => {
+    const value = claims[name];
+    if (typeof value === 'string' && value.trim() !== '') {
+      values.add(value);
+    } else if (Array.isArray(value)) {
+      value.filter((item): item is string => typeof item === 'string').forEach(item => values.add(item));
+    }
+  });
+  return Array.from(values);
+};
+
+// Decode a JWT, returns null when it isn't a well formed, signed token
+export const decodeJwt = (token: string): DecodedJwt | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3 || segments.some(segment => segment === '')) {
+    return null;
+  }
+
+  try {
+    const header: unknown = JSON.parse(decodeSegment(segments[0]));
+    const claims: unknown = JSON.parse(decodeSegment(segments[1]));
+
+    if (!isObject(header) || typeof header.alg !== 'string' || header.alg.toLowerCase() === 'none') {
+      return null;
+    }
+    if (!isObject(claims)) {
+      return null;
+    }
+    for (const name of ['exp', 'iat', 'nbf']) {
+      if (claims[name] !== undefined && typeof claims[name] !== 'number') {
+        return null;
+      }
+    }
+
+    return { header: header as unknown as JwtHeader, claims: claims as JwtClaims };
+  } catch {
+    return null;
+  }
+};
+
+// Read the identity from an access token, returns null for malformed tokens, tokens
+// without a subject and tokens from an unexpected issuer
+export const getTokenIdentity = (token: string, expectedIssuer?: string): TokenIdentity | null => {
+  const decoded = decodeJwt(token);
+  if (!decoded) {
+    return null;
+  }
+
+  const { claims } = decoded;
+  if (expectedIssuer && claims.iss !== expectedIssuer) {
+    return null;
+  }
+
+  const username = readString(claims, CLAIM_TYPES.username);
+  const subject = readString(claims, CLAIM_TYPES.subject) || username;
+  if (!subject) {
+    return null;
+  }
+
+  const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [];
+
+  return {
+    subject,
+    username: username || subject,
+    displayName: readString(claims, CLAIM_TYPES.displayName) || username || subject,
+    roles: readList(claims, CLAIM_TYPES.roles),
+    permissions: [...readList(claims, CLAIM_TYPES.permissions), ...scopes],
+    issuer: claims.iss,
+    expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : null,
+  };
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { oidcConfig } from '@/services/api';
+import { completeAuthorization, createAuthorizationURL, getOidcIssuer } from './oidc';
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const idToken = (claims: Record<string, unknown>): string => `${encode({ alg: 'RS256' })}.${encode(claims)}.signature`;
+
+// Start a login and return the state and nonce the provider would echo back
+const startLogin = async (): Promise<{ state: string; nonce: string }> => {
+  const url = new URL(await createAuthorizationURL('/sessions'));
+  return { state: url.searchParams.get('state') || '', nonce: url.searchParams.get('nonce') || '' };
+};
+
+const tokenResponse = (nonce: string): Response => new Response(JSON.stringify({
+  access_token: 'access',
+  token_type: 'Bearer',
+  id_token: idToken({ iss: getOidcIssuer(), aud: 'admin-web', nonce, exp: Math.floor(Date.now() / 1000) + 300 }),
+}), { status: 200, headers: { 'content-type': 'application/json' } });
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('sessionStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal('window', { location: { origin: 'http://localhost:3000' } });
+  oidcConfig.clientId = 'admin-web';
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('completeAuthorization', () => {
+  it('redeems the code with a form-encoded grant and returns the tokens', async () => {
+    const { state, nonce } = await startLogin();
+    const fetchMock = vi.fn(() => Promise.resolve(tokenResponse(nonce)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await completeAuthorization(new URLSearchParams({ code: 'abc', state }));
+
+    expect(result).toMatchObject({ tokens: { access_token: 'access' }, returnTo: '/sessions' });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).not.toHaveProperty('Content-Type');
+    expect((init.body as URLSearchParams).get('grant_type')).toBe('authorization_code');
+    expect((init.body as URLSearchParams).get('code')).toBe('abc');
+  });
+
+  it('rejects a response whose state doesn\'t match the login', async () => {
+    await startLogin();
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(completeAuthorization(new URLSearchParams({ code: 'abc', state: 'forged' })))
+      .rejects.toMatchObject({ code: 'SSO_STATE_MISMATCH' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('accepts the state of a login only once', async () => {
+    const { state, nonce } = await startLogin();
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(tokenResponse(nonce))));
+
+    await completeAuthorization(new URLSearchParams({ code: 'abc', state }));
+    await expect(completeAuthorization(new URLSearchParams({ code: 'abc', state })))
+      .rejects.toMatchObject({ code: 'SSO_STATE_MISMATCH' });
+  });
+
+  it('rejects an id token issued for another login attempt', async () => {
+    const { state } = await startLogin();
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(tokenResponse('other-nonce'))));
+
+    await expect(completeAuthorization(new URLSearchParams({ code: 'abc', state })))
+      .rejects.toMatchObject({ code: 'SSO_NONCE_MISMATCH' });
+  });
+});
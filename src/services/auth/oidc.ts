@@ -0,0 +1,175 @@
+// OpenID Connect authorization code flow with PKCE
+// The browser is a public client: the code verifier, state and nonce are kept in
+// sessionStorage for the round trip to the identity provider and used exactly once.
+import { oidcService, apiConfigs, oidcConfig } from '@/services/api';
+import type { ApiResponse, ApiError } from '@/services/api';
+import { decodeJwt } from './jwt';
+
+// Token endpoint response (RFC 6749 / OpenID Connect Core)
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+// Login attempt waiting for the provider to redirect back
+export interface OidcLoginRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo?: string;
+  createdAt: number;
+}
+
+const LOGIN_REQUEST_KEY = 'oidcLoginRequest';
+
+// A login that isn't completed within this time can't be completed at all
+const LOGIN_REQUEST_MAX_AGE = 10 * 60 * 1000;
+
+// Tolerated clock difference with the provider when checking id token expiry
+const CLOCK_SKEW = 60 * 1000;
+
+// Issuer the provider's tokens must carry
+export const getOidcIssuer = (): string => {
+  return oidcConfig.issuer || apiConfigs.oidc.baseURL.replace(/\/$/, '');
+};
+
+const ssoError = (message: string, code: string, status: number = 401): ApiError => {
+  return { message, status, code };
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Cryptographically random URL-safe string
+const randomString = (byteLength: number = 32): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+// S256 code challenge for a verifier (RFC 7636)
+const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+const getRedirectURI = (): string => {
+  return `${window.location.origin}${oidcConfig.redirectPath}`;
+};
+
+const buildProviderURL = (path: string): string => {
+  return `${apiConfigs.oidc.baseURL.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+};
+
+// Start a login: remember the attempt and build the provider's authorization URL
+export const createAuthorizationURL = async (returnTo?: string): Promise<string> => {
+  const request: OidcLoginRequest = {
+    state: randomString(),
+    nonce: randomString(),
+    codeVerifier: randomString(48),
+    returnTo,
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(LOGIN_REQUEST_KEY, JSON.stringify(request));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: oidcConfig.clientId,
+    redirect_uri: getRedirectURI(),
+    scope: oidcConfig.scope,
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: await createCodeChallenge(request.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+
+  return `${buildProviderURL(oidcConfig.authorizePath)}?${params.toString()}`;
+};
+
+// Take the pending login attempt, it can only be used once
+const takeLoginRequest = (): OidcLoginRequest | null => {
+  const stored = sessionStorage.getItem(LOGIN_REQUEST_KEY);
+  sessionStorage.removeItem(LOGIN_REQUEST_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const request: OidcLoginRequest = JSON.parse(stored);
+    return Date.now() - request.createdAt <= LOGIN_REQUEST_MAX_AGE ? request : null;
+  } catch (error) {
+    console.error('Error parsing stored SSO login request:', error);
+    return null;
+  }
+};
+
+// Check the id token belongs to this login attempt and this client
+const validateIdToken = (idToken: string, nonce: string): void => {
+  const decoded = decodeJwt(idToken);
+  if (!decoded) {
+    throw ssoError('The identity provider returned a malformed id token', 'SSO_INVALID_TOKEN');
+  }
+
+  const { claims } = decoded;
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== getOidcIssuer() || !audience.includes(oidcConfig.clientId)) {
+    throw ssoError('The id token was issued for a different client', 'SSO_INVALID_TOKEN');
+  }
+  if (claims.nonce !== nonce) {
+    throw ssoError('The id token does not match this login attempt', 'SSO_NONCE_MISMATCH');
+  }
+  if (typeof claims.exp === 'number' && claims.exp * 1000 + CLOCK_SKEW < Date.now()) {
+    throw ssoError('The id token has expired', 'SSO_INVALID_TOKEN');
+  }
+};
+
+// Call the token endpoint with a form-encoded grant
+const requestTokens = (body: URLSearchParams): Promise<ApiResponse<OidcTokenResponse>> => {
+  return oidcService.post<OidcTokenResponse>(oidcConfig.tokenPath, body, { skipAuthRefresh: true });
+};
+
+// Finish a login from the callback URL parameters. Checks the state, redeems the code
+// with the verifier and checks the id token nonce.
+export const completeAuthorization = async (
+  params: URLSearchParams
+): Promise<{ tokens: OidcTokenResponse; returnTo?: string }> => {
+  const request = takeLoginRequest();
+
+  const providerError = params.get('error');
+  if (providerError) {
+    throw ssoError(params.get('error_description') || `Sign-in was refused (${providerError})`, 'SSO_REFUSED');
+  }
+
+  const code = params.get('code');
+  if (!request || !code || params.get('state') !== request.state) {
+    throw ssoError('The sign-in response does not match a login started here. Please try again.', 'SSO_STATE_MISMATCH');
+  }
+
+  const response = await requestTokens(new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectURI(),
+    client_id: oidcConfig.clientId,
+    code_verifier: request.codeVerifier,
+  }));
+
+  const tokens = response.data;
+  if (!response.success || !tokens?.access_token || !tokens.id_token) {
+    throw ssoError('The identity provider did not return the expected tokens', 'SSO_INVALID_TOKEN');
+  }
+  validateIdToken(tokens.id_token, request.nonce);
+
+  return { tokens, returnTo: request.returnTo };
+};
+
+// Exchange a provider refresh token for new tokens
+export const refreshAuthorization = async (refreshToken: string): Promise<ApiResponse<OidcTokenResponse>> => {
+  return requestTokens(new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: oidcConfig.clientId,
+  }));
+};
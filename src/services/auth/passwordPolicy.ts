@@ -0,0 +1,100 @@
+// Password policy checks for the change and reset password forms
+// These give live feedback only; the login server enforces the same policy and also
+// checks the password history, which the browser can't see.
+import { passwordPolicyConfig } from '@/services/api';
+
+export type PasswordRule = 'length' | 'breached' | 'reuse' | 'username' | 'match';
+
+export interface PasswordCheck {
+  rule: PasswordRule;
+  label: string;
+  passed: boolean;
+  unknown?: boolean; // Couldn't be checked (yet), counts as not passed
+}
+
+export interface PasswordContext {
+  confirmPassword: string;
+  currentPassword?: string; // Only known on the change password form
+  username?: string;
+  breachedPasswords?: Set<string> | null; // Unknown until the list is loaded
+  breachListFailed?: boolean; // The list couldn't be loaded
+}
+
+let breachListRequest: Promise<Set<string> | null> | null = null;
+
+// Load the local wordlist of breached passwords once. Resolves null when it can't be read,
+// the next call tries again.
+export const loadBreachedPasswords = (): Promise<Set<string> | null> => {
+  if (!breachListRequest) {
+    breachListRequest = fetch(passwordPolicyConfig.breachListURL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.text();
+      })
+      .then(text => new Set(
+        text.split('\n').map(line => line.trim().toLowerCase()).filter(Boolean)
+      ))
+      .catch((error) => {
+        console.error('Failed to load the breached password list:', error);
+        breachListRequest = null;
+        return null;
+      });
+  }
+  return breachListRequest;
+};
+
+// Evaluate a new password against every rule that applies to the form
+export const checkPassword = (password: string, context: PasswordContext): PasswordCheck[] => {
+  const { minLength, maxLength } = passwordPolicyConfig;
+  const normalized = password.trim().toLowerCase();
+  const { breachedPasswords, breachListFailed } = context;
+
+  let breachedLabel = 'Not a common or breached password';
+  if (!breachedPasswords) {
+    breachedLabel += breachListFailed ? ' (could not be checked, try again shortly)' : ' (checking...)';
+  }
+
+  const checks: PasswordCheck[] = [
+    {
+      rule: 'length',
+      label: `Between ${minLength} and ${maxLength} characters`,
+      passed: password.length >= minLength && password.length <= maxLength,
+    },
+    {
+      rule: 'breached',
+      label: breachedLabel,
+      passed: normalized !== '' && !!breachedPasswords && !breachedPasswords.has(normalized),
+      unknown: !breachedPasswords,
+    },
+  ];
+
+  if (context.username) {
+    checks.push({
+      rule: 'username',
+      label: 'Does not contain your username',
+      passed: normalized !== '' && !normalized.includes(context.username.toLowerCase()),
+    });
+  }
+
+  if (context.currentPassword !== undefined) {
+    checks.push({
+      rule: 'reuse',
+      label: 'Different from your current password',
+      passed: password !== '' && password !== context.currentPassword,
+    });
+  }
+
+  checks.push({
+    rule: 'match',
+    label: 'Both passwords match',
+    passed: password !== '' && password === context.confirmPassword,
+  });
+
+  return checks;
+};
+
+export const isPasswordAcceptable = (checks: PasswordCheck[]): boolean => {
+  return checks.every(check => check.passed);
+};
@@ -0,0 +1,124 @@
+// Role and permission model for the admin panel
+export type Permission =
+  | 'dashboard:view'
+  | 'world:view'
+  | 'servers:view'
+  | 'servers:restart'
+  | 'servers:deploy'
+  | 'alerts:view'
+  | 'alerts:manage'
+  | 'users:view'
+  | 'users:manage'
+  | 'users:delete'
+  | 'users:impersonate'
+  | 'sessions:view'
+  | 'sessions:revoke'
+  | 'admin:access';
+
+export type Role = 'admin' | 'operator' | 'support' | 'viewer';
+
+export interface UserAccess {
+  roles: string[];
+  permissions: Permission[];
+}
+
+export interface RoutePermission {
+  path: string;
+  permissions: Permission[];
+}
+
+const ALL_PERMISSIONS: Permission[] = [
+  'dashboard:view',
+  'world:view',
+  'servers:view',
+  'servers:restart',
+  'servers:deploy',
+  'alerts:view',
+  'alerts:manage',
+  'users:view',
+  'users:manage',
+  'users:delete',
+  'users:impersonate',
+  'sessions:view',
+  'sessions:revoke',
+  'admin:access',
+];
+
+// Permissions granted by each role
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  operator: [
+    'dashboard:view',
+    'world:view',
+    'servers:view',
+    'servers:restart',
+    'servers:deploy',
+    'alerts:view',
+    'alerts:manage',
+    'users:view',
+    'sessions:view',
+  ],
+  support: [
+    'dashboard:view',
+    'world:view',
+    'servers:view',
+    'alerts:view',
+    'users:view',
+    'users:manage',
+    'users:impersonate',
+    'sessions:view',
+    'sessions:revoke',
+  ],
+  viewer: [
+    'dashboard:view',
+    'world:view',
+    'servers:view',
+    'alerts:view',
+  ],
+};
+
+// Permissions required to open a route, matched by path prefix
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { path: '/world', permissions: ['world:view'] },
+  { path: '/admin', permissions: ['admin:access'] },
+  { path: '/sessions', permissions: ['sessions:view'] },
+  { path: '/users', permissions: ['users:view'] },
+];
+
+const isPermission = (value: string): value is Permission => {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+};
+
+// Own keys only, a role claim like "constructor" isn't a role
+const isRole = (value: string): value is Role => {
+  return Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
+};
+
+// Combine the permissions granted by the roles with the ones granted explicitly
+export const resolvePermissions = (roles: string[], granted: string[] = []): Permission[] => {
+  const permissions = new Set<Permission>();
+
+  roles.filter(isRole).forEach((role) => {
+    ROLE_PERMISSIONS[role].forEach(permission => permissions.add(permission));
+  });
+  granted.filter(isPermission).forEach(permission => permissions.add(permission));
+
+  return Array.from(permissions);
+};
+
+// Check that every required permission is granted
+export const hasAllPermissions = (
+  granted: readonly string[],
+  required: Permission | Permission[]
+): boolean => {
+  const requiredList = Array.isArray(required) ? required : [required];
+  return requiredList.every(permission => granted.includes(permission));
+};
+
+// Get the permissions required to open a route
+export const getRoutePermissions = (pathname: string): Permission[] => {
+  const route = ROUTE_PERMISSIONS.find(({ path }) =>
+    pathname === path || pathname.startsWith(`${path}/`)
+  );
+  return route ? route.permissions : [];
+};
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isSessionCookieValid } from './routes';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('isSessionCookieValid', () => {
+  it('accepts an expiry in the future and an unknown expiry', () => {
+    expect(isSessionCookieValid(String(Date.now() + 60000))).toBe(true);
+    expect(isSessionCookieValid('1')).toBe(true);
+  });
+
+  it('rejects a missing cookie and a past expiry', () => {
+    expect(isSessionCookieValid(undefined)).toBe(false);
+    expect(isSessionCookieValid('')).toBe(false);
+    expect(isSessionCookieValid(String(Date.now() - 1))).toBe(false);
+  });
+
+  it('treats an expiry it can\'t parse as expired', () => {
+    expect(isSessionCookieValid('tomorrow')).toBe(false);
+    expect(isSessionCookieValid('NaN')).toBe(false);
+    expect(isSessionCookieValid('Infinity')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+// Route access table shared by the Next.js middleware and the client-side RouteGuard.
+// Keep this module free of browser-only imports, it also runs in the edge runtime.
+
+// - public: reachable with or without a session
+// - guest: only reachable without a session (login screens), signed-in users are sent on
+// - protected: requires a session, others are sent to the login page
+export type RouteAccess = 'public' | 'guest' | 'protected';
+
+export interface RouteRule {
+  path: string;
+  access: RouteAccess;
+}
+
+export const routeConfig = {
+  loginPath: '/login',
+  defaultPath: '/',
+  returnToParam: 'returnTo',
+  // Marker cookie written by AuthService while a session is active
+  sessionCookieName: 'lime_session',
+  // Access for routes not listed below
+  defaultAccess: 'protected' as RouteAccess,
+  routes: [
+    { path: '/login', access: 'guest' },
+    { path: '/forgot-password', access: 'guest' },
+    { path: '/reset-password', access: 'public' },
+    { path: '/auth/callback', access: 'public' },
+    { path: '/world', access: 'protected' },
+    { path: '/admin', access: 'protected' },
+    { path: '/account', access: 'protected' },
+    { path: '/sessions', access: 'protected' },
+    { path: '/users', access: 'protected' },
+    { path: '/', access: 'protected' },
+  ] as RouteRule[],
+};
+
+// Find the access rule for a path, matched exactly or by path prefix
+export const getRouteAccess = (pathname: string): RouteAccess => {
+  const rule = routeConfig.routes.find(({ path }) =>
+    pathname === path || (path !== '/' && pathname.startsWith(`${path}/`))
+  );
+  return rule ? rule.access : routeConfig.defaultAccess;
+};
+
+// Only allow same-origin relative paths, so returnTo can't be used as an open redirect
+export const getSafeReturnTo = (returnTo: string | null | undefined): string => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return routeConfig.defaultPath;
+  }
+  if (getRouteAccess(returnTo.split('?')[0]) === 'guest') {
+    return routeConfig.defaultPath;
+  }
+  return returnTo;
+};
+
+// Build the login path that sends the user back to the given location afterwards
+export const buildLoginPath = (returnTo: string): string => {
+  if (!returnTo || returnTo === routeConfig.defaultPath) {
+    return routeConfig.loginPath;
+  }
+  return `${routeConfig.loginPath}?${routeConfig.returnToParam}=${encodeURIComponent(returnTo)}`;
+};
+
+// The cookie holds the session expiry in ms, or '1' when the expiry is unknown. Any other
+// value can't be trusted and counts as expired.
+export const isSessionCookieValid = (value: string | undefined): boolean => {
+  if (!value) {
+    return false;
+  }
+  const expiresAt = Number(value);
+  return expiresAt === 1 || (Number.isFinite(expiresAt) && expiresAt > Date.now());
+};
@@ -0,0 +1,100 @@
+// Cross-tab session synchronization
+// Uses BroadcastChannel where available and falls back to localStorage storage events
+import type { AuthTokens } from '@/services/api';
+import type { LoginResponse, SessionEventType } from './authService';
+
+export interface SessionSyncMessage {
+  type: SessionEventType;
+  tokens: AuthTokens | null;
+  loginResponse: LoginResponse | null;
+  sourceId: string;
+  timestamp: number;
+}
+
+export type SessionSyncHandler = (message: SessionSyncMessage) => void;
+
+const CHANNEL_NAME = 'lime-auth-session';
+const STORAGE_EVENT_KEY = 'authSessionEvent';
+
+export class SessionSync {
+  private channel: BroadcastChannel | null = null;
+  private handler?: SessionSyncHandler;
+  private readonly tabId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  // Start listening for session events from other tabs
+  public start(handler: SessionSyncHandler): void {
+    if (typeof window === 'undefined' || this.handler) return;
+
+    this.handler = handler;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => {
+        this.receive(event.data);
+      };
+    } else {
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+  }
+
+  // Stop listening
+  public stop(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorageEvent);
+    }
+    this.handler = undefined;
+  }
+
+  // Send a session event to the other tabs
+  public publish(
+    type: SessionEventType,
+    tokens: AuthTokens | null,
+    loginResponse: LoginResponse | null
+  ): void {
+    if (typeof window === 'undefined') return;
+
+    const message: SessionSyncMessage = {
+      type,
+      tokens,
+      loginResponse,
+      sourceId: this.tabId,
+      timestamp: Date.now(),
+    };
+
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // Storage events only fire in other tabs and only when the value changes,
+    // the timestamp and tab id keep every message unique
+    try {
+      localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify(message));
+      localStorage.removeItem(STORAGE_EVENT_KEY);
+    } catch (error) {
+      console.error('Failed to broadcast session event:', error);
+    }
+  }
+
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+
+    try {
+      this.receive(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error('Error parsing session event:', error);
+    }
+  };
+
+  private receive(message: SessionSyncMessage): void {
+    if (!message || message.sourceId === this.tabId) return;
+    this.handler?.(message);
+  }
+}
+
+// Export singleton instance
+export const sessionSync = new SessionSync();
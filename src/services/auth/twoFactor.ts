@@ -0,0 +1,34 @@
+// Two-factor (TOTP) authentication types
+
+// Returned by the login endpoints instead of a token when a second factor is required
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeId: string;
+  expiresAt?: string;
+}
+
+export interface TwoFactorVerifyRequest {
+  challengeId: string;
+  code: string;
+  recoveryCode?: boolean; // The code is a recovery code instead of an authenticator code
+}
+
+// Secret for a new authenticator, otpauthUri is the payload of the enrollment QR code
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorEnrollmentConfirmRequest {
+  code: string;
+}
+
+export interface TwoFactorEnrollmentConfirmation {
+  recoveryCodes: string[];
+}
+
+export const isTwoFactorChallenge = (data: unknown): data is TwoFactorChallenge => {
+  return typeof data === 'object' && data !== null &&
+    (data as Partial<TwoFactorChallenge>).twoFactorRequired === true &&
+    typeof (data as Partial<TwoFactorChallenge>).challengeId === 'string';
+};
@@ -0,0 +1,212 @@
+// Server-side helpers for the BFF route handlers under src/app/api.
+// Only import this from route handlers: it reads and writes the httpOnly token cookies.
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { backendURLs, sessionConfig } from '@/services/api/config';
+import type { BackendName } from '@/services/api/config';
+import { getTokenIdentity } from '@/services/auth/jwt';
+import { routeConfig } from '@/services/auth/routes';
+import { isTwoFactorChallenge } from '@/services/auth/twoFactor';
+import type { LoginResponse } from '@/services/auth/authService';
+import type { BffSessionResponse } from './types';
+
+export const TOKEN_COOKIE = 'lime_token';
+export const REFRESH_COOKIE = 'lime_refresh';
+
+const REFRESH_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // seconds
+const secureCookies = process.env.NODE_ENV === 'production';
+
+// Request headers not forwarded to the backends
+const STRIPPED_REQUEST_HEADERS = [
+  'authorization',
+  'connection',
+  'content-length',
+  'cookie',
+  'host',
+  'keep-alive',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'x-requested-with',
+];
+
+// Response headers not passed back to the browser
+const STRIPPED_RESPONSE_HEADERS = [
+  'connection',
+  'content-encoding',
+  'content-length',
+  'set-cookie',
+  'transfer-encoding',
+];
+
+export const isBackendName = (value: string): value is BackendName => {
+  return Object.prototype.hasOwnProperty.call(backendURLs, value);
+};
+
+export const jsonError = (message: string, status: number, code: string): NextResponse => {
+  return NextResponse.json({ message, code }, { status });
+};
+
+// Browsers only let same-origin scripts send this header, which keeps cross-site
+// forms and links from riding on the session cookie
+export const isSameOriginRequest = (request: NextRequest): boolean => {
+  return request.headers.get('x-requested-with') === 'XMLHttpRequest';
+};
+
+const buildBackendURL = (backend: BackendName, path: string, search: string = ''): string => {
+  const base = backendURLs[backend].replace(/\/$/, '');
+  return `${base}/${path.replace(/^\//, '')}${search}`;
+};
+
+// Forward a request to a backend with the session token attached
+export const forwardRequest = async (
+  request: NextRequest,
+  backend: BackendName,
+  pathSegments: string[]
+): Promise<NextResponse> => {
+  const headers = new Headers();
+  request.headers.forEach((value, key) => {
+    if (!STRIPPED_REQUEST_HEADERS.includes(key.toLowerCase())) {
+      headers.set(key, value);
+    }
+  });
+
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  // Segments arrive decoded, re-encode them so an encoded slash stays inside its segment
+  const path = pathSegments.map(segment => encodeURIComponent(segment)).join('/');
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+  try {
+    const upstream = await fetch(buildBackendURL(backend, path, request.nextUrl.search), {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      redirect: 'manual',
+      cache: 'no-store',
+    });
+
+    const responseHeaders = new Headers();
+    upstream.headers.forEach((value, key) => {
+      if (!STRIPPED_RESPONSE_HEADERS.includes(key.toLowerCase())) {
+        responseHeaders.set(key, value);
+      }
+    });
+
+    return new NextResponse(upstream.body, {
+      status: upstream.status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error(`BFF proxy request to ${backend} failed:`, error);
+    return jsonError('Backend unavailable', 502, 'BAD_GATEWAY');
+  }
+};
+
+// Set the token cookies and the session marker cookie read by the middleware
+const setSessionCookies = (
+  response: NextResponse,
+  token: string,
+  refreshToken: string | undefined,
+  expiresAt: number | null
+): void => {
+  const expires = expiresAt !== null ? new Date(expiresAt) : undefined;
+
+  response.cookies.set(TOKEN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: secureCookies,
+    path: '/api',
+    expires,
+  });
+
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, refreshToken, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: secureCookies,
+      path: '/api/auth',
+      maxAge: REFRESH_COOKIE_MAX_AGE,
+    });
+  }
+
+  response.cookies.set(routeConfig.sessionCookieName, String(expiresAt ?? 1), {
+    sameSite: 'lax',
+    secure: secureCookies,
+    path: '/',
+    expires,
+  });
+};
+
+// Expire every session cookie
+export const clearSessionCookies = (response: NextResponse): NextResponse => {
+  response.cookies.set(TOKEN_COOKIE, '', { path: '/api', maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { path: '/api/auth', maxAge: 0 });
+  response.cookies.set(routeConfig.sessionCookieName, '', { path: '/', maxAge: 0 });
+  return response;
+};
+
+// Call a login server endpoint that issues tokens and turn the result into a cookie
+// session. The browser only gets the expiry and the decoded identity.
+export const createSession = async (
+  path: string,
+  body: unknown,
+  previousRefreshToken?: string
+): Promise<NextResponse> => {
+  let upstream: Response;
+  try {
+    upstream = await fetch(buildBackendURL('auth', path), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('BFF login server request failed:', error);
+    return jsonError('Login server unavailable', 502, 'BAD_GATEWAY');
+  }
+
+  const data: unknown = await upstream.json().catch(() => null);
+  if (!upstream.ok) {
+    return NextResponse.json(data ?? { message: 'Authentication failed' }, { status: upstream.status });
+  }
+
+  // A second factor is required, no tokens yet
+  if (isTwoFactorChallenge(data)) {
+    return NextResponse.json(data);
+  }
+
+  const loginResponse = data as LoginResponse;
+  const identity = loginResponse?.token
+    ? getTokenIdentity(loginResponse.token, sessionConfig.tokenIssuer)
+    : null;
+  if (!identity) {
+    return jsonError('The login server returned an invalid token', 502, 'INVALID_TOKEN');
+  }
+
+  const parsedExpiry = loginResponse.expiresAt ? new Date(loginResponse.expiresAt).getTime() : NaN;
+  const expiresAt = Number.isNaN(parsedExpiry) ? identity.expiresAt : parsedExpiry;
+
+  const session: BffSessionResponse = {
+    expiresAt: expiresAt !== null ? new Date(expiresAt).toISOString() : '',
+    tokenType: loginResponse.tokenType || 'Bearer',
+    identity,
+  };
+
+  const response = NextResponse.json(session);
+  setSessionCookies(
+    response,
+    loginResponse.token,
+    loginResponse.refreshToken || previousRefreshToken,
+    expiresAt
+  );
+  return response;
+};
@@ -0,0 +1,15 @@
+// Types shared by the BFF route handlers and the client
+import type { TokenIdentity } from '@/services/auth/jwt';
+
+// Session returned by the BFF instead of the raw tokens, which stay in httpOnly cookies
+export interface BffSessionResponse {
+  expiresAt: string;
+  tokenType: string;
+  identity: TokenIdentity;
+}
+
+// Short-lived ticket used to authenticate the SignalR connection
+export interface HubTicketResponse {
+  ticket: string;
+  expiresAt: string;
+}
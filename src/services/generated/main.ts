@@ -0,0 +1,131 @@
+// Generated from openapi/main.json (Lime Web Server API 1.0.0) by `npm run api:generate`.
+// Do not edit, change the spec and generate again.
+// Not generated: uploadAvatar (POST /users/{id}/avatar): only JSON request bodies are generated
+import { createApiClient, defineEndpoint, schema, apiService } from '@/services/api';
+import type { ApiResponse, RequestConfig, Schema } from '@/services/api';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+  role: 'admin' | 'user' | 'moderator';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateUserRequest {
+  name: string;
+  email: string;
+  password: string;
+  role?: 'admin' | 'user' | 'moderator';
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  email?: string;
+  avatar?: string;
+  role?: 'admin' | 'user' | 'moderator';
+}
+
+export interface UserListQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  role?: 'admin' | 'user' | 'moderator';
+}
+
+export interface UsersListResponse {
+  users: User[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Runtime schemas, for the schema option of RequestConfig
+export const userSchema: Schema<User> = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  email: schema.string(),
+  avatar: schema.optional(schema.string()),
+  role: schema.oneOf(['admin', 'user', 'moderator']),
+  createdAt: schema.string(),
+  updatedAt: schema.string(),
+});
+
+export const createUserRequestSchema: Schema<CreateUserRequest> = schema.object({
+  name: schema.string(),
+  email: schema.string(),
+  password: schema.string(),
+  role: schema.optional(schema.oneOf(['admin', 'user', 'moderator'])),
+});
+
+export const updateUserRequestSchema: Schema<UpdateUserRequest> = schema.object({
+  name: schema.optional(schema.string()),
+  email: schema.optional(schema.string()),
+  avatar: schema.optional(schema.string()),
+  role: schema.optional(schema.oneOf(['admin', 'user', 'moderator'])),
+});
+
+export const userListQuerySchema: Schema<UserListQuery> = schema.object({
+  page: schema.optional(schema.number()),
+  limit: schema.optional(schema.number()),
+  search: schema.optional(schema.string()),
+  role: schema.optional(schema.oneOf(['admin', 'user', 'moderator'])),
+});
+
+export const usersListResponseSchema: Schema<UsersListResponse> = schema.object({
+  users: schema.array(schema.lazy(() => userSchema)),
+  total: schema.number(),
+  page: schema.number(),
+  limit: schema.number(),
+});
+
+export const mainEndpoints = {
+  getUsers: defineEndpoint<UsersListResponse, UserListQuery>()({ method: 'GET', url: '/users' }),
+  createUser: defineEndpoint<User, never, CreateUserRequest>()({ method: 'POST', url: '/users' }),
+  getCurrentUser: defineEndpoint<User>()({ method: 'GET', url: '/users/me' }),
+  updateCurrentUser: defineEndpoint<User, never, UpdateUserRequest>()({ method: 'PATCH', url: '/users/me' }),
+  getUserById: defineEndpoint<User>()({ method: 'GET', url: '/users/:id' }),
+  updateUser: defineEndpoint<User, never, UpdateUserRequest>()({ method: 'PATCH', url: '/users/:id' }),
+  deleteUser: defineEndpoint<void>()({ method: 'DELETE', url: '/users/:id' }),
+};
+
+const client = createApiClient(apiService, mainEndpoints);
+
+export class MainApi {
+  // Get all users with pagination
+  static async getUsers(params?: UserListQuery, config?: RequestConfig): Promise<ApiResponse<UsersListResponse>> {
+    return client.getUsers({ query: params, config });
+  }
+
+  // Create new user
+  static async createUser(body: CreateUserRequest, config?: RequestConfig): Promise<ApiResponse<User>> {
+    return client.createUser({ body, config });
+  }
+
+  // Get current user profile
+  static async getCurrentUser(config?: RequestConfig): Promise<ApiResponse<User>> {
+    return client.getCurrentUser({ config });
+  }
+
+  // Update current user profile
+  static async updateCurrentUser(body: UpdateUserRequest, config?: RequestConfig): Promise<ApiResponse<User>> {
+    return client.updateCurrentUser({ body, config });
+  }
+
+  // Get user by ID
+  static async getUserById(id: string, config?: RequestConfig): Promise<ApiResponse<User>> {
+    return client.getUserById({ path: { id }, config });
+  }
+
+  // Update user
+  static async updateUser(id: string, body: UpdateUserRequest, config?: RequestConfig): Promise<ApiResponse<User>> {
+    return client.updateUser({ path: { id }, body, config });
+  }
+
+  // Delete user
+  static async deleteUser(id: string, config?: RequestConfig): Promise<ApiResponse<void>> {
+    return client.deleteUser({ path: { id }, config });
+  }
+}
@@ -0,0 +1,536 @@
+// Generated from openapi/orchestrator.json (Lime Orchestrator API 1.0.0) by `npm run api:generate`.
+// Do not edit, change the spec and generate again.
+import { createApiClient, defineEndpoint, schema, orchestratorService } from '@/services/api';
+import type { ApiResponse, RequestConfig, Schema } from '@/services/api';
+
+export interface ServerStatus {
+  id: string;
+  name: string;
+  status: 'online' | 'offline' | 'maintenance' | 'warning';
+  uptime: number;
+  cpu: number;
+  memory: number;
+  disk: number;
+  lastCheck: string;
+  region: string;
+  version?: string;
+}
+
+export interface ServerStatusUpdate {
+  status: 'online' | 'offline' | 'maintenance' | 'warning';
+}
+
+export interface ServerListQuery {
+  page?: number;
+  limit?: number;
+  status?: 'online' | 'offline' | 'maintenance' | 'warning';
+  region?: string;
+}
+
+export interface ServersListResponse {
+  servers: ServerStatus[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ServerMetrics {
+  serverId: string;
+  timestamp: string;
+  cpu: number;
+  memory: number;
+  disk: number;
+  network: {
+    inbound: number;
+    outbound: number;
+  };
+  connections: number;
+}
+
+export interface MetricsQuery {
+  from?: string;
+  to?: string;
+  interval?: '5m' | '15m' | '1h' | '6h' | '24h';
+}
+
+export interface MetricsResponse {
+  metrics: ServerMetrics[];
+  total: number;
+  timeRange: {
+    from: string;
+    to: string;
+  };
+}
+
+export interface DeployRequest {
+  version: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  serverId: string;
+  message: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'active' | 'acknowledged' | 'resolved';
+  triggeredAt: string;
+  resolvedAt?: string;
+}
+
+export interface AlertUpdate {
+  status: 'active' | 'acknowledged' | 'resolved';
+}
+
+export interface AlertQuery {
+  page?: number;
+  limit?: number;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  status?: 'active' | 'acknowledged' | 'resolved';
+  serverId?: string;
+}
+
+export interface AlertsResponse {
+  alerts: Alert[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: string;
+  threshold: number;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface AlertRuleInput {
+  name: string;
+  condition: string;
+  threshold: number;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  enabled: boolean;
+}
+
+export interface AlertRuleUpdate {
+  name?: string;
+  condition?: string;
+  threshold?: number;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  enabled?: boolean;
+}
+
+export interface SystemOverview {
+  totalServers: number;
+  onlineServers: number;
+  offlineServers: number;
+  activeAlerts: number;
+  criticalAlerts: number;
+  avgCpuUsage: number;
+  avgMemoryUsage: number;
+  totalUptime: number;
+}
+
+export type DeploymentStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface Deployment {
+  id: string;
+  serverId: string;
+  version: string;
+  status: DeploymentStatus;
+  startedAt: string;
+  completedAt?: string;
+  logs?: string[];
+}
+
+export interface DeploymentQuery {
+  page?: number;
+  limit?: number;
+  status?: DeploymentStatus;
+}
+
+export interface DeploymentsResponse {
+  deployments: Deployment[];
+  total: number;
+}
+
+export type SessionKind = 'admin' | 'player';
+
+export interface SessionDevice {
+  type: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  os?: string;
+  browser?: string;
+  client?: string; // Game client or tool name for non-browser sessions
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  username: string;
+  kind: SessionKind;
+  device: SessionDevice;
+  ipAddress: string;
+  location?: string;
+  startedAt: string;
+  lastActivityAt: string;
+  current?: boolean; // The session making this request
+}
+
+export type SessionSortField = 'startedAt' | 'lastActivityAt' | 'username' | 'ipAddress';
+
+export interface SessionQuery {
+  page?: number;
+  limit?: number;
+  kind?: SessionKind;
+  userId?: string;
+  search?: string; // Matches username, IP address and device
+  activeSince?: string;
+  sortBy?: SessionSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface SessionsResponse {
+  sessions: Session[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface RevokeSessionsResponse {
+  revoked: number;
+}
+
+export interface RestartServerResponse {
+  message: string;
+}
+
+export interface DeployToServerResponse {
+  deploymentId: string;
+  message: string;
+}
+
+// Runtime schemas, for the schema option of RequestConfig
+export const serverStatusSchema: Schema<ServerStatus> = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  status: schema.oneOf(['online', 'offline', 'maintenance', 'warning']),
+  uptime: schema.number(),
+  cpu: schema.number(),
+  memory: schema.number(),
+  disk: schema.number(),
+  lastCheck: schema.string(),
+  region: schema.string(),
+  version: schema.optional(schema.string()),
+});
+
+export const serverStatusUpdateSchema: Schema<ServerStatusUpdate> = schema.object({
+  status: schema.oneOf(['online', 'offline', 'maintenance', 'warning']),
+});
+
+export const serverListQuerySchema: Schema<ServerListQuery> = schema.object({
+  page: schema.optional(schema.number()),
+  limit: schema.optional(schema.number()),
+  status: schema.optional(schema.oneOf(['online', 'offline', 'maintenance', 'warning'])),
+  region: schema.optional(schema.string()),
+});
+
+export const serversListResponseSchema: Schema<ServersListResponse> = schema.object({
+  servers: schema.array(schema.lazy(() => serverStatusSchema)),
+  total: schema.number(),
+  page: schema.number(),
+  limit: schema.number(),
+});
+
+export const serverMetricsSchema: Schema<ServerMetrics> = schema.object({
+  serverId: schema.string(),
+  timestamp: schema.string(),
+  cpu: schema.number(),
+  memory: schema.number(),
+  disk: schema.number(),
+  network: schema.object({
+    inbound: schema.number(),
+    outbound: schema.number(),
+  }),
+  connections: schema.number(),
+});
+
+export const metricsQuerySchema: Schema<MetricsQuery> = schema.object({
+  from: schema.optional(schema.string()),
+  to: schema.optional(schema.string()),
+  interval: schema.optional(schema.oneOf(['5m', '15m', '1h', '6h', '24h'])),
+});
+
+export const metricsResponseSchema: Schema<MetricsResponse> = schema.object({
+  metrics: schema.array(schema.lazy(() => serverMetricsSchema)),
+  total: schema.number(),
+  timeRange: schema.object({
+    from: schema.string(),
+    to: schema.string(),
+  }),
+});
+
+export const deployRequestSchema: Schema<DeployRequest> = schema.object({
+  version: schema.string(),
+});
+
+export const alertSchema: Schema<Alert> = schema.object({
+  id: schema.string(),
+  ruleId: schema.string(),
+  serverId: schema.string(),
+  message: schema.string(),
+  severity: schema.oneOf(['low', 'medium', 'high', 'critical']),
+  status: schema.oneOf(['active', 'acknowledged', 'resolved']),
+  triggeredAt: schema.string(),
+  resolvedAt: schema.optional(schema.string()),
+});
+
+export const alertUpdateSchema: Schema<AlertUpdate> = schema.object({
+  status: schema.oneOf(['active', 'acknowledged', 'resolved']),
+});
+
+export const alertQuerySchema: Schema<AlertQuery> = schema.object({
+  page: schema.optional(schema.number()),
+  limit: schema.optional(schema.number()),
+  severity: schema.optional(schema.oneOf(['low', 'medium', 'high', 'critical'])),
+  status: schema.optional(schema.oneOf(['active', 'acknowledged', 'resolved'])),
+  serverId: schema.optional(schema.string()),
+});
+
+export const alertsResponseSchema: Schema<AlertsResponse> = schema.object({
+  alerts: schema.array(schema.lazy(() => alertSchema)),
+  total: schema.number(),
+  page: schema.number(),
+  limit: schema.number(),
+});
+
+export const alertRuleSchema: Schema<AlertRule> = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  condition: schema.string(),
+  threshold: schema.number(),
+  severity: schema.oneOf(['low', 'medium', 'high', 'critical']),
+  enabled: schema.boolean(),
+  createdAt: schema.string(),
+});
+
+export const alertRuleInputSchema: Schema<AlertRuleInput> = schema.object({
+  name: schema.string(),
+  condition: schema.string(),
+  threshold: schema.number(),
+  severity: schema.oneOf(['low', 'medium', 'high', 'critical']),
+  enabled: schema.boolean(),
+});
+
+export const alertRuleUpdateSchema: Schema<AlertRuleUpdate> = schema.object({
+  name: schema.optional(schema.string()),
+  condition: schema.optional(schema.string()),
+  threshold: schema.optional(schema.number()),
+  severity: schema.optional(schema.oneOf(['low', 'medium', 'high', 'critical'])),
+  enabled: schema.optional(schema.boolean()),
+});
+
+export const systemOverviewSchema: Schema<SystemOverview> = schema.object({
+  totalServers: schema.number(),
+  onlineServers: schema.number(),
+  offlineServers: schema.number(),
+  activeAlerts: schema.number(),
+  criticalAlerts: schema.number(),
+  avgCpuUsage: schema.number(),
+  avgMemoryUsage: schema.number(),
+  totalUptime: schema.number(),
+});
+
+export const deploymentStatusSchema: Schema<DeploymentStatus> = schema.oneOf(['pending', 'running', 'completed', 'failed']);
+
+export const deploymentSchema: Schema<Deployment> = schema.object({
+  id: schema.string(),
+  serverId: schema.string(),
+  version: schema.string(),
+  status: schema.lazy(() => deploymentStatusSchema),
+  startedAt: schema.string(),
+  completedAt: schema.optional(schema.string()),
+  logs: schema.optional(schema.array(schema.string())),
+});
+
+export const deploymentQuerySchema: Schema<DeploymentQuery> = schema.object({
+  page: schema.optional(schema.number()),
+  limit: schema.optional(schema.number()),
+  status: schema.optional(schema.lazy(() => deploymentStatusSchema)),
+});
+
+export const deploymentsResponseSchema: Schema<DeploymentsResponse> = schema.object({
+  deployments: schema.array(schema.lazy(() => deploymentSchema)),
+  total: schema.number(),
+});
+
+export const sessionKindSchema: Schema<SessionKind> = schema.oneOf(['admin', 'player']);
+
+export const sessionDeviceSchema: Schema<SessionDevice> = schema.object({
+  type: schema.oneOf(['desktop', 'mobile', 'tablet', 'unknown']),
+  os: schema.optional(schema.string()),
+  browser: schema.optional(schema.string()),
+  client: schema.optional(schema.string()),
+});
+
+export const sessionSchema: Schema<Session> = schema.object({
+  id: schema.string(),
+  userId: schema.string(),
+  username: schema.string(),
+  kind: schema.lazy(() => sessionKindSchema),
+  device: schema.lazy(() => sessionDeviceSchema),
+  ipAddress: schema.string(),
+  location: schema.optional(schema.string()),
+  startedAt: schema.string(),
+  lastActivityAt: schema.string(),
+  current: schema.optional(schema.boolean()),
+});
+
+export const sessionSortFieldSchema: Schema<SessionSortField> = schema.oneOf(['startedAt', 'lastActivityAt', 'username', 'ipAddress']);
+
+export const sessionQuerySchema: Schema<SessionQuery> = schema.object({
+  page: schema.optional(schema.number()),
+  limit: schema.optional(schema.number()),
+  kind: schema.optional(schema.lazy(() => sessionKindSchema)),
+  userId: schema.optional(schema.string()),
+  search: schema.optional(schema.string()),
+  activeSince: schema.optional(schema.string()),
+  sortBy: schema.optional(schema.lazy(() => sessionSortFieldSchema)),
+  sortOrder: schema.optional(schema.oneOf(['asc', 'desc'])),
+});
+
+export const sessionsResponseSchema: Schema<SessionsResponse> = schema.object({
+  sessions: schema.array(schema.lazy(() => sessionSchema)),
+  total: schema.number(),
+  page: schema.number(),
+  limit: schema.number(),
+});
+
+export const revokeSessionsResponseSchema: Schema<RevokeSessionsResponse> = schema.object({
+  revoked: schema.number(),
+});
+
+export const restartServerResponseSchema: Schema<RestartServerResponse> = schema.object({
+  message: schema.string(),
+});
+
+export const deployToServerResponseSchema: Schema<DeployToServerResponse> = schema.object({
+  deploymentId: schema.string(),
+  message: schema.string(),
+});
+
+export const orchestratorEndpoints = {
+  getServers: defineEndpoint<ServersListResponse, ServerListQuery>()({ method: 'GET', url: '/servers' }),
+  getServerById: defineEndpoint<ServerStatus>()({ method: 'GET', url: '/servers/:serverId' }),
+  updateServer: defineEndpoint<ServerStatus, never, ServerStatusUpdate>()({ method: 'PATCH', url: '/servers/:serverId' }),
+  getServerMetrics: defineEndpoint<MetricsResponse, MetricsQuery>()({ method: 'GET', url: '/servers/:serverId/metrics' }),
+  restartServer: defineEndpoint<RestartServerResponse>()({ method: 'POST', url: '/servers/:serverId/restart' }),
+  deployToServer: defineEndpoint<DeployToServerResponse, never, DeployRequest>()({ method: 'POST', url: '/servers/:serverId/deploy' }),
+  getAlerts: defineEndpoint<AlertsResponse, AlertQuery>()({ method: 'GET', url: '/alerts' }),
+  updateAlert: defineEndpoint<Alert, never, AlertUpdate>()({ method: 'PATCH', url: '/alerts/:alertId' }),
+  getAlertRules: defineEndpoint<AlertRule[]>()({ method: 'GET', url: '/alerts/rules' }),
+  createAlertRule: defineEndpoint<AlertRule, never, AlertRuleInput>()({ method: 'POST', url: '/alerts/rules' }),
+  updateAlertRule: defineEndpoint<AlertRule, never, AlertRuleUpdate>()({ method: 'PATCH', url: '/alerts/rules/:ruleId' }),
+  deleteAlertRule: defineEndpoint<void>()({ method: 'DELETE', url: '/alerts/rules/:ruleId' }),
+  getSystemOverview: defineEndpoint<SystemOverview>()({ method: 'GET', url: '/dashboard/overview' }),
+  getDeployments: defineEndpoint<DeploymentsResponse, DeploymentQuery>()({ method: 'GET', url: '/deployments' }),
+  getSessions: defineEndpoint<SessionsResponse, SessionQuery>()({ method: 'GET', url: '/sessions' }),
+  revokeSession: defineEndpoint<RevokeSessionsResponse>()({ method: 'DELETE', url: '/sessions/:sessionId' }),
+  revokeUserSessions: defineEndpoint<RevokeSessionsResponse>()({ method: 'DELETE', url: '/sessions/users/:userId' }),
+  testConnection: defineEndpoint<void>()({ method: 'GET', url: '/tests' }),
+};
+
+const client = createApiClient(orchestratorService, orchestratorEndpoints);
+
+export class OrchestratorApi {
+  // Get all servers with status
+  static async getServers(params?: ServerListQuery, config?: RequestConfig): Promise<ApiResponse<ServersListResponse>> {
+    return client.getServers({ query: params, config });
+  }
+
+  // Get server by ID
+  static async getServerById(serverId: string, config?: RequestConfig): Promise<ApiResponse<ServerStatus>> {
+    return client.getServerById({ path: { serverId }, config });
+  }
+
+  // Update server status
+  static async updateServer(serverId: string, body: ServerStatusUpdate, config?: RequestConfig): Promise<ApiResponse<ServerStatus>> {
+    return client.updateServer({ path: { serverId }, body, config });
+  }
+
+  // Get server metrics
+  static async getServerMetrics(serverId: string, params?: MetricsQuery, config?: RequestConfig): Promise<ApiResponse<MetricsResponse>> {
+    return client.getServerMetrics({ path: { serverId }, query: params, config });
+  }
+
+  // Restart server
+  static async restartServer(serverId: string, config?: RequestConfig): Promise<ApiResponse<RestartServerResponse>> {
+    return client.restartServer({ path: { serverId }, config });
+  }
+
+  // Deploy a version to a server
+  static async deployToServer(serverId: string, body: DeployRequest, config?: RequestConfig): Promise<ApiResponse<DeployToServerResponse>> {
+    return client.deployToServer({ path: { serverId }, body, config });
+  }
+
+  // Get alerts
+  static async getAlerts(params?: AlertQuery, config?: RequestConfig): Promise<ApiResponse<AlertsResponse>> {
+    return client.getAlerts({ query: params, config });
+  }
+
+  // Acknowledge or resolve an alert
+  static async updateAlert(alertId: string, body: AlertUpdate, config?: RequestConfig): Promise<ApiResponse<Alert>> {
+    return client.updateAlert({ path: { alertId }, body, config });
+  }
+
+  // Get alert rules
+  static async getAlertRules(config?: RequestConfig): Promise<ApiResponse<AlertRule[]>> {
+    return client.getAlertRules({ config });
+  }
+
+  // Create alert rule
+  static async createAlertRule(body: AlertRuleInput, config?: RequestConfig): Promise<ApiResponse<AlertRule>> {
+    return client.createAlertRule({ body, config });
+  }
+
+  // Update alert rule
+  static async updateAlertRule(ruleId: string, body: AlertRuleUpdate, config?: RequestConfig): Promise<ApiResponse<AlertRule>> {
+    return client.updateAlertRule({ path: { ruleId }, body, config });
+  }
+
+  // Delete alert rule
+  static async deleteAlertRule(ruleId: string, config?: RequestConfig): Promise<ApiResponse<void>> {
+    return client.deleteAlertRule({ path: { ruleId }, config });
+  }
+
+  // Get system overview for the dashboard
+  static async getSystemOverview(config?: RequestConfig): Promise<ApiResponse<SystemOverview>> {
+    return client.getSystemOverview({ config });
+  }
+
+  // Get deployment status
+  static async getDeployments(params?: DeploymentQuery, config?: RequestConfig): Promise<ApiResponse<DeploymentsResponse>> {
+    return client.getDeployments({ query: params, config });
+  }
+
+  // Get active sessions
+  static async getSessions(params?: SessionQuery, config?: RequestConfig): Promise<ApiResponse<SessionsResponse>> {
+    return client.getSessions({ query: params, config });
+  }
+
+  // Revoke a single session
+  static async revokeSession(sessionId: string, config?: RequestConfig): Promise<ApiResponse<RevokeSessionsResponse>> {
+    return client.revokeSession({ path: { sessionId }, config });
+  }
+
+  // Revoke every session of a user
+  static async revokeUserSessions(userId: string, config?: RequestConfig): Promise<ApiResponse<RevokeSessionsResponse>> {
+    return client.revokeUserSessions({ path: { userId }, config });
+  }
+
+  // Test orchestrator connection
+  static async testConnection(config?: RequestConfig): Promise<ApiResponse<void>> {
+    return client.testConnection({ config });
+  }
+}
@@ -1,8 +1,19 @@
 // Custom React hooks for API calls
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { ApiResponse, ApiError } from '@/services/api';
+import {
+  fetchQuery,
+  getQueryResponse,
+  hashQueryKey,
+  invalidateQueries,
+  isQueryStale,
+  subscribeQuery,
+  updateQueryOptimistically,
+  type QueryKey,
+} from '@/services/utils/queryCache';
+import { handleApiError, isCancelledError } from '@/services/utils/apiHelpers';
 
 // Generic API hook state
 interface ApiState<T> {
@@ -28,25 +39,73 @@ interface UseApiOptions<T = unknown> {
   onError?: (error: ApiError) => void;
 }
 
-// Main useApi hook
+// Options for hooks reading shared data from the query cache
+interface QueryCacheHookOptions {
+  queryKey?: QueryKey; // Hooks with the same key share their data and requests
+  staleTime?: number; // Cached data younger than this is used without refetching, in milliseconds
+  cacheTime?: number; // How long the data is kept once fetched, in milliseconds
+}
+
+const initialState = {
+  data: null,
+  loading: false,
+  error: null,
+  success: false,
+};
+
+// Hook state for a cached response
+const stateFromCache = <T>(response: ApiResponse<T> | null): ApiState<T> => {
+  return response
+    ? { data: response.data, loading: false, error: null, success: response.success }
+    : initialState;
+};
+
+// Tracks the request a hook waits for. Starting a request aborts the signal of the previous
+// one and unmounting aborts the last, so only the latest request of a mounted hook sets state.
+const useLatestRequest = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
+
+// Main useApi hook. The call gets a signal that is aborted once the request is superseded
+// or the component unmounted.
 export function useApi<T>(
-  apiCall: () => Promise<ApiResponse<T>>,
-  options: UseApiOptions<T> = {}
+  apiCall: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+  options: UseApiOptions<T> & QueryCacheHookOptions = {}
 ): ApiHookResult<T> {
-  const { immediate = false, onSuccess, onError } = options;
+  const { immediate = false, onSuccess, onError, queryKey, staleTime = 0, cacheTime } = options;
 
-  const [state, setState] = useState<ApiState<T>>({
-    data: null,
-    loading: false,
-    error: null,
-    success: false,
-  });
+  // Keys are usually written inline, the hash tells when the query actually changed
+  const queryHash = queryKey ? hashQueryKey(queryKey) : null;
+  const queryKeyRef = useRef(queryKey);
+  queryKeyRef.current = queryKey;
+  // Keyed hooks refetch on invalidation once they have been used
+  const activeRef = useRef(false);
+
+  const [state, setState] = useState<ApiState<T>>(
+    () => stateFromCache(queryKey ? getQueryResponse<T>(queryKey) : null)
+  );
+  const startRequest = useLatestRequest();
 
   const execute = useCallback(async (): Promise<ApiResponse<T>> => {
+    const signal = startRequest();
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const response = await apiCall();
+      const key = queryKeyRef.current;
+      activeRef.current = true;
+      // Shared requests are cancelled by the query cache, not by one of the hooks waiting for them
+      const response = key ? await fetchQuery(key, apiCall, { cacheTime }) : await apiCall(signal);
+      if (signal.aborted) {
+        return response;
+      }
       
       setState({
         data: response.data,
@@ -62,6 +121,14 @@ export function useApi<T>(
       return response;
     } catch (error) {
       const apiError = error as ApiError;
+      if (signal.aborted) {
+        throw error;
+      }
+      // Cancelled requests aren't errors to show, the data stays as it was
+      if (isCancelledError(apiError)) {
+        setState(prev => ({ ...prev, loading: false }));
+        throw error;
+      }
       
       setState({
         data: null,
@@ -76,24 +143,48 @@ export function useApi<T>(
 
       throw error;
     }
-  }, [apiCall, onSuccess, onError]);
+  }, [apiCall, onSuccess, onError, cacheTime, startRequest]);
+
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
 
   // Reset state
   const reset = useCallback((): void => {
-    setState({
-      data: null,
-      loading: false,
-      error: null,
-      success: false,
-    });
+    setState(initialState);
   }, []);
 
+  // Show the cached data of the key and follow its changes
+  useEffect(() => {
+    const key = queryKeyRef.current;
+    if (!key) return;
+
+    setState(stateFromCache(getQueryResponse<T>(key)));
+    return subscribeQuery(key, (event) => {
+      if (event === 'updated') {
+        setState(stateFromCache(getQueryResponse<T>(key)));
+      } else if (activeRef.current) {
+        return executeRef.current().catch(() => undefined);
+      }
+    });
+  }, [queryHash]);
+
   // Execute on mount if immediate is true
   useEffect(() => {
-    if (immediate) {
-      execute();
+    if (immediate && !queryHash) {
+      execute().catch(() => undefined);
     }
-  }, [execute, immediate]);
+  }, [execute, immediate, queryHash]);
+
+  // Keyed hooks follow their key instead of the call, and skip the request while the cache is fresh
+  useEffect(() => {
+    const key = queryKeyRef.current;
+    if (!immediate || !key) return;
+
+    activeRef.current = true;
+    if (isQueryStale(key, staleTime)) {
+      executeRef.current().catch(() => undefined);
+    }
+  }, [queryHash, immediate, staleTime]);
 
   return {
     ...state,
@@ -102,32 +193,50 @@ export function useApi<T>(
   };
 }
 
-// Hook for API calls with parameters
-export function useApiWithParams<T, P extends unknown[]>(
-  apiCall: (...params: P) => Promise<ApiResponse<T>>,
-  options: UseApiOptions<T> = {}
-): {
-  data: T | null;
-  loading: boolean;
-  error: ApiError | null;
-  success: boolean;
-  execute: (...params: P) => Promise<ApiResponse<T>>;
+// Options of the hooks taking parameters
+type ParamsHookOptions<T, P extends unknown[]> = UseApiOptions<T> & Omit<QueryCacheHookOptions, 'queryKey'> & {
+  queryKey?: (...params: P) => QueryKey; // Key of the query for the given parameters
+};
+
+// Request state shared by the hooks taking parameters. The call gets the parameters and the
+// signal of the request.
+function useParamsRequest<T, P extends unknown[]>(
+  apiCall: (params: P, signal: AbortSignal) => Promise<ApiResponse<T>>,
+  options: ParamsHookOptions<T, P>
+): ApiState<T> & {
+  execute: (params: P) => Promise<ApiResponse<T>>;
   reset: () => void;
 } {
-  const { onSuccess, onError } = options;
+  const { onSuccess, onError, queryKey, staleTime = 0, cacheTime } = options;
 
-  const [state, setState] = useState<ApiState<T>>({
-    data: null,
-    loading: false,
-    error: null,
-    success: false,
-  });
+  const queryKeyRef = useRef(queryKey);
+  queryKeyRef.current = queryKey;
+  // Keyed hooks follow the query of their last call
+  const [activeHash, setActiveHash] = useState<string | null>(null);
+  const activeParamsRef = useRef<P | null>(null);
 
-  const execute = useCallback(async (...params: P): Promise<ApiResponse<T>> => {
+  const [state, setState] = useState<ApiState<T>>(initialState);
+  const startRequest = useLatestRequest();
+
+  const execute = useCallback(async (params: P): Promise<ApiResponse<T>> => {
+    const signal = startRequest();
     setState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const response = await apiCall(...params);
+      const key = queryKeyRef.current?.(...params);
+      let response: ApiResponse<T>;
+      if (key) {
+        activeParamsRef.current = params;
+        setActiveHash(hashQueryKey(key));
+        const cached = isQueryStale(key, staleTime) ? null : getQueryResponse<T>(key);
+        response = cached ?? await fetchQuery(key, cacheSignal => apiCall(params, cacheSignal), { cacheTime });
+      } else {
+        response = await apiCall(params, signal);
+      }
+      // A later call or unmounting superseded this one
+      if (signal.aborted) {
+        return response;
+      }
       
       setState({
         data: response.data,
@@ -143,6 +252,13 @@ export function useApiWithParams<T, P extends unknown[]>(
       return response;
     } catch (error) {
       const apiError = error as ApiError;
+      if (signal.aborted) {
+        throw error;
+      }
+      if (isCancelledError(apiError)) {
+        setState(prev => ({ ...prev, loading: false }));
+        throw error;
+      }
       
       setState({
         data: null,
@@ -157,17 +273,30 @@ export function useApiWithParams<T, P extends unknown[]>(
 
       throw error;
     }
-  }, [apiCall, onSuccess, onError]);
+  }, [apiCall, onSuccess, onError, staleTime, cacheTime, startRequest]);
+
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
 
   const reset = useCallback((): void => {
-    setState({
-      data: null,
-      loading: false,
-      error: null,
-      success: false,
-    });
+    setState(initialState);
   }, []);
 
+  // Follow changes of the query of the last call
+  useEffect(() => {
+    const params = activeParamsRef.current;
+    const key = params && queryKeyRef.current?.(...params);
+    if (!params || !key) return;
+
+    return subscribeQuery(key, (event) => {
+      if (event === 'updated') {
+        setState(stateFromCache(getQueryResponse<T>(key)));
+      } else {
+        return executeRef.current(params).catch(() => undefined);
+      }
+    });
+  }, [activeHash]);
+
   return {
     ...state,
     execute,
@@ -175,25 +304,96 @@ export function useApiWithParams<T, P extends unknown[]>(
   };
 }
 
+// Hook for API calls with parameters. Only the latest call updates the state, earlier calls
+// still run to completion.
+export function useApiWithParams<T, P extends unknown[]>(
+  apiCall: (...params: P) => Promise<ApiResponse<T>>,
+  options: ParamsHookOptions<T, P> = {}
+): {
+  data: T | null;
+  loading: boolean;
+  error: ApiError | null;
+  success: boolean;
+  execute: (...params: P) => Promise<ApiResponse<T>>;
+  reset: () => void;
+} {
+  const callWithParams = useCallback((params: P): Promise<ApiResponse<T>> => apiCall(...params), [apiCall]);
+  const { execute: executeWithParams, ...request } = useParamsRequest(callWithParams, options);
+
+  const execute = useCallback((...params: P): Promise<ApiResponse<T>> => {
+    return executeWithParams(params);
+  }, [executeWithParams]);
+
+  return {
+    ...request,
+    execute,
+  };
+}
+
+// Optimistic change of cached query data, shown while the mutation runs
+interface OptimisticUpdate<D, P extends unknown[]> {
+  queryKey: QueryKey;
+  update: (current: D | null, ...params: P) => D | null;
+}
+
 // Hook for mutations (POST, PUT, DELETE operations)
-export function useMutation<T, P extends unknown[]>(
+export function useMutation<T, P extends unknown[], D = unknown>(
   mutationFn: (...params: P) => Promise<ApiResponse<T>>,
-  options: UseApiOptions<T> = {}
+  options: UseApiOptions<T> & {
+    invalidates?: QueryKey[]; // Queries to refetch once the mutation settled
+    optimisticUpdate?: OptimisticUpdate<D, P>; // Rolled back when the mutation fails
+    onSettled?: (data: T | null, error: ApiError | null, ...params: P) => void | Promise<unknown>;
+  } = {}
 ): {
   data: T | null;
   loading: boolean;
   error: ApiError | null;
+  errorMessage: string | null; // User-facing message of the error
   success: boolean;
   execute: (...params: P) => Promise<ApiResponse<T>>;
   reset: () => void;
 } {
-  return useApiWithParams(mutationFn, options);
+  const { invalidates, optimisticUpdate, onSettled, ...apiOptions } = options;
+  const settleOptionsRef = useRef({ invalidates, optimisticUpdate, onSettled });
+  settleOptionsRef.current = { invalidates, optimisticUpdate, onSettled };
+
+  const mutate = useCallback(async (...params: P): Promise<ApiResponse<T>> => {
+    const { invalidates, optimisticUpdate, onSettled } = settleOptionsRef.current;
+    const rollback = optimisticUpdate
+      ? updateQueryOptimistically<D>(optimisticUpdate.queryKey, current => optimisticUpdate.update(current, ...params))
+      : null;
+
+    let data: T | null = null;
+    let mutationError: ApiError | null = null;
+    try {
+      const response = await mutationFn(...params);
+      data = response.data;
+      return response;
+    } catch (error) {
+      mutationError = error as ApiError;
+      rollback?.();
+      throw error;
+    } finally {
+      // Settled either way: refetch what the mutation touched, also after a rollback
+      await Promise.allSettled([
+        ...(invalidates ?? []).map(key => invalidateQueries(key)),
+        Promise.resolve(onSettled?.(data, mutationError, ...params)),
+      ]);
+    }
+  }, [mutationFn]);
+
+  const apiHook = useApiWithParams(mutate, apiOptions);
+
+  return {
+    ...apiHook,
+    errorMessage: apiHook.error ? handleApiError(apiHook.error) : null,
+  };
 }
 
 // Hook for queries with auto-refetch capabilities
 export function useQuery<T>(
-  queryFn: () => Promise<ApiResponse<T>>,
-  options: UseApiOptions<T> & {
+  queryFn: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+  options: UseApiOptions<T> & QueryCacheHookOptions & {
     refetchInterval?: number;
     enabled?: boolean;
   } = {}
@@ -218,7 +418,7 @@ export function useQuery<T>(
     if (refetchInterval && enabled) {
       const interval = setInterval(() => {
         if (!apiHook.loading) {
-          apiHook.execute();
+          apiHook.execute().catch(() => undefined);
         }
       }, refetchInterval);
 
@@ -232,12 +432,12 @@ export function useQuery<T>(
   };
 }
 
-// Hook for paginated data
+// Hook for paginated data. Changing the page cancels the request of the previous one.
 export function usePaginatedQuery<T>(
-  queryFn: (page: number, limit: number) => Promise<ApiResponse<T>>,
+  queryFn: (page: number, limit: number, signal: AbortSignal) => Promise<ApiResponse<T>>,
   initialPage = 1,
   initialLimit = 10,
-  options: UseApiOptions<T> = {}
+  options: UseApiOptions<T> & QueryCacheHookOptions = {}
 ): {
   data: T | null;
   loading: boolean;
@@ -253,17 +453,36 @@ export function usePaginatedQuery<T>(
   firstPage: () => Promise<ApiResponse<T>>;
   setLimit: (limit: number) => void;
 } {
+  const { queryKey, ...apiOptions } = options;
   const [page, setPage] = useState(initialPage);
   const [limit, setLimit] = useState(initialLimit);
 
-  const apiHook = useApiWithParams(queryFn, options);
+  const callPage = useCallback(([pageNumber, pageLimit]: [number, number], signal: AbortSignal): Promise<ApiResponse<T>> => {
+    return queryFn(pageNumber, pageLimit, signal);
+  }, [queryFn]);
+
+  // Every page is its own query below the key
+  const { execute: executePage, ...apiHook } = useParamsRequest(callPage, {
+    ...apiOptions,
+    queryKey: queryKey && ((pageNumber: number, pageLimit: number): QueryKey => (
+      [...queryKey, { page: pageNumber, limit: pageLimit }]
+    )),
+  });
+  const execute = useCallback((pageNumber: number, pageLimit: number): Promise<ApiResponse<T>> => {
+    return executePage([pageNumber, pageLimit]);
+  }, [executePage]);
+  const executeRef = useRef(execute);
+  executeRef.current = execute;
+  // Page and limit of the last request, so a page change isn't fetched twice
+  const requestedRef = useRef<string | null>(null);
 
   const fetchPage = useCallback((newPage: number, newLimit?: number): Promise<ApiResponse<T>> => {
     const pageLimit = newLimit || limit;
     setPage(newPage);
     if (newLimit) setLimit(newLimit);
-    return apiHook.execute(newPage, pageLimit);
-  }, [apiHook, limit]);
+    requestedRef.current = `${newPage}:${pageLimit}`;
+    return execute(newPage, pageLimit);
+  }, [execute, limit]);
 
   const nextPage = useCallback((): Promise<ApiResponse<T> | undefined> => {
     return fetchPage(page + 1);
@@ -280,13 +499,23 @@ export function usePaginatedQuery<T>(
     return fetchPage(1);
   }, [fetchPage]);
 
-  // Initial fetch
+  // Unmounting aborted the last request, a remount (e.g. under StrictMode) fetches the page again
+  useEffect(() => () => {
+    requestedRef.current = null;
+  }, []);
+
+  // Initial fetch, and refetch when the limit is changed with setLimit
   useEffect(() => {
-    apiHook.execute(page, limit);
-  }, [apiHook, page, limit]);
+    const requested = `${page}:${limit}`;
+    if (requestedRef.current === requested) return;
+
+    requestedRef.current = requested;
+    executeRef.current(page, limit).catch(() => undefined);
+  }, [page, limit]);
 
   return {
     ...apiHook,
+    execute,
     page,
     limit,
     fetchPage,
@@ -295,4 +524,4 @@ export function usePaginatedQuery<T>(
     firstPage,
     setLimit,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+// Circuit breaker state of each backend, for showing which one is degraded
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiService, authService, orchestratorService } from '@/services/api';
+import type { BackendName, CircuitState } from '@/services/api';
+
+export type BackendHealth = Record<BackendName, CircuitState>;
+
+const backends: Record<BackendName, typeof apiService> = {
+  main: apiService,
+  auth: authService,
+  orchestrator: orchestratorService,
+};
+
+const readHealth = (): BackendHealth => ({
+  main: backends.main.getCircuitState(),
+  auth: backends.auth.getCircuitState(),
+  orchestrator: backends.orchestrator.getCircuitState(),
+});
+
+export function useBackendHealth(): BackendHealth {
+  const [health, setHealth] = useState<BackendHealth>(readHealth);
+
+  useEffect(() => {
+    // A breaker may have changed between the first render and subscribing
+    setHealth(readHealth());
+    const unsubscribes = Object.values(backends).map(service =>
+      service.subscribeCircuit(() => setHealth(readHealth()))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  return health;
+}
@@ -0,0 +1,59 @@
+// Field errors of a form, set from failed requests and bound to its inputs
+'use client';
+
+import { useCallback, useState } from 'react';
+import { getFormErrors } from '@/services/utils/formErrors';
+import type { FormErrorOptions, FormErrors } from '@/services/utils/formErrors';
+
+// Attributes linking an input to its error message, rendered with id errorId(field)
+export interface FieldErrorProps {
+  'aria-invalid': boolean;
+  'aria-describedby'?: string;
+}
+
+export function useFormErrors<Field extends string>(
+  options: FormErrorOptions<Field>,
+  idPrefix = 'field'
+): {
+  errors: FormErrors<Field>;
+  formError?: string;
+  setFromError: (error: unknown) => void;
+  clear: (field?: Field | 'form') => void;
+  errorId: (field: Field) => string;
+  fieldProps: (field: Field) => FieldErrorProps;
+} {
+  const [errors, setErrors] = useState<FormErrors<Field>>({});
+
+  // Options are read when an error comes in, they don't need to be stable
+  const setFromError = (error: unknown): void => {
+    setErrors(getFormErrors(error, options));
+  };
+
+  // Clear one message, e.g. once its input changed, or all of them before a submit
+  const clear = useCallback((field?: Field | 'form'): void => {
+    setErrors((current) => {
+      if (!field) return {};
+      if (!current[field]) return current;
+      const next = { ...current };
+      delete next[field];
+      return next;
+    });
+  }, []);
+
+  const errorId = (field: Field): string => `${idPrefix}-${field}-error`;
+
+  const fieldProps = (field: Field): FieldErrorProps => (
+    errors[field]
+      ? { 'aria-invalid': true, 'aria-describedby': errorId(field) }
+      : { 'aria-invalid': false }
+  );
+
+  return {
+    errors,
+    formError: errors.form,
+    setFromError,
+    clear,
+    errorId,
+    fieldProps,
+  };
+}
@@ -0,0 +1,45 @@
+// Live password policy checks for password forms
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { checkPassword, isPasswordAcceptable, loadBreachedPasswords } from '@/services/auth/passwordPolicy';
+import type { PasswordCheck, PasswordContext } from '@/services/auth/passwordPolicy';
+
+export function usePasswordChecks(
+  password: string,
+  context: Omit<PasswordContext, 'breachedPasswords'>
+): {
+  checks: PasswordCheck[];
+  acceptable: boolean;
+} {
+  const [breachedPasswords, setBreachedPasswords] = useState<Set<string> | null>(null);
+  const [breachListFailed, setBreachListFailed] = useState(false);
+  const { confirmPassword, currentPassword, username } = context;
+
+  // Load the wordlist, and after a failure try again as the user keeps typing
+  const retryKey = breachListFailed ? password : null;
+  useEffect(() => {
+    if (breachedPasswords) return;
+
+    let active = true;
+    loadBreachedPasswords().then((list) => {
+      if (!active) return;
+      setBreachedPasswords(list);
+      setBreachListFailed(list === null);
+    });
+    return () => {
+      active = false;
+    };
+  }, [breachedPasswords, retryKey]);
+
+  const checks = useMemo(
+    () => checkPassword(password, { confirmPassword, currentPassword, username, breachedPasswords, breachListFailed }),
+    [password, confirmPassword, currentPassword, username, breachedPasswords, breachListFailed]
+  );
+
+  return {
+    checks,
+    // Hold off until the wordlist is loaded, so a breached password can't slip through
+    acceptable: breachedPasswords !== null && isPasswordAcceptable(checks),
+  };
+}
@@ -6,30 +6,98 @@ export { AuthService } from './auth/authService';
 export type {
   LoginRequest,
   LoginResponse,
+  LoginResult,
+  AuthProvider,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  PasswordFormField,
+  PasswordFieldErrors,
+  PasswordFormError,
+  ReauthenticateRequest,
+  StepUpResponse,
+  StepUpPrompt,
+  RefreshTokenRequest,
   ValidationResponse,
+  SessionEvent,
+  SessionEventType,
+  SessionListener,
   User as AuthUser,
 } from './auth/authService';
 export {
   login,
   quickLogin,
+  verifyTwoFactor,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  getLoginErrorMessage,
+  isSsoAvailable,
+  beginSsoLogin,
+  completeSsoLogin,
+  refreshTokens,
   logout,
   validateToken,
   initializeAuth,
   isAuthenticated,
   getCurrentTokens,
+  getCurrentUser,
+  getAuthProvider,
+  canRefreshSession,
+  getHubAccessToken,
   getStoredLoginResponse,
+  getStoredBffSession,
+  getSessionExpiry,
+  isSessionExpiring,
+  getAccess,
+  hasPermission,
+  requirePermission,
+  reauthenticate,
+  hasRecentStepUp,
+  requireStepUp,
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  getPasswordFieldErrors,
 } from './auth/authService';
+export * from './auth/permissions';
+export * from './auth/jwt';
+export * from './auth/twoFactor';
+export * from './auth/passwordPolicy';
+export type { OidcTokenResponse, OidcLoginRequest } from './auth/oidc';
+export type { BffSessionResponse, HubTicketResponse } from './bff/types';
+export {
+  ImpersonationService,
+  IMPERSONATION_HEADERS,
+  startImpersonation,
+  stopImpersonation,
+  getCurrentImpersonation,
+  isImpersonating,
+} from './auth/impersonationService';
+export type {
+  ImpersonationRequest,
+  ImpersonatedPlayer,
+  ImpersonationSession,
+  ImpersonationListener,
+} from './auth/impersonationService';
+export { SessionSync, sessionSync } from './auth/sessionSync';
+export type { SessionSyncMessage, SessionSyncHandler } from './auth/sessionSync';
 
 // User service exports with explicit naming
-export { UserService } from './users/userService';
+export { UserService, userQueryKeys, mainEndpoints } from './users/userService';
 export type {
   User as ServiceUser,
   CreateUserRequest,
   UpdateUserRequest,
   UsersListResponse,
+  UserListQuery,
 } from './users/userService';
 
 export * from './monitoring/orchestratorService';
 export * from './signalr/gameWorldService';
 export * from './hooks/useApi';
-export * from './utils/apiHelpers';
\ No newline at end of file
+export * from './hooks/usePasswordChecks';
+export * from './hooks/useBackendHealth';
+export * from './hooks/useFormErrors';
+export * from './utils/apiHelpers';
+export * from './utils/formErrors';
+export * from './utils/queryCache';
\ No newline at end of file
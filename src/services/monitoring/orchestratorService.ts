@@ -1,131 +1,69 @@
 // Server monitoring and orchestration service
+// Types, endpoints and the OrchestratorApi base class are generated from openapi/orchestrator.json.
+// This class adds what the spec doesn't say: permissions, step-up, caching, idempotency and
+// which responses are checked against their schema at runtime.
 import { orchestratorService } from '@/services/api';
-import type { ApiResponse } from '@/services/api';
-
-// Define monitoring-related types
-export interface ServerStatus {
-  id: string;
-  name: string;
-  status: 'online' | 'offline' | 'maintenance' | 'warning';
-  uptime: number;
-  cpu: number;
-  memory: number;
-  disk: number;
-  lastCheck: string;
-  region: string;
-  version?: string;
-}
-
-export interface ServerMetrics {
-  serverId: string;
-  timestamp: string;
-  cpu: number;
-  memory: number;
-  disk: number;
-  network: {
-    inbound: number;
-    outbound: number;
-  };
-  connections: number;
-}
-
-export interface AlertRule {
-  id: string;
-  name: string;
-  condition: string;
-  threshold: number;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  enabled: boolean;
-  createdAt: string;
-}
-
-export interface Alert {
-  id: string;
-  ruleId: string;
-  serverId: string;
-  message: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'active' | 'acknowledged' | 'resolved';
-  triggeredAt: string;
-  resolvedAt?: string;
-}
-
-export interface ServersListResponse {
-  servers: ServerStatus[];
-  total: number;
-  page: number;
-  limit: number;
-}
-
-export interface MetricsResponse {
-  metrics: ServerMetrics[];
-  total: number;
-  timeRange: {
-    from: string;
-    to: string;
-  };
-}
-
-export interface AlertsResponse {
-  alerts: Alert[];
-  total: number;
-  page: number;
-  limit: number;
-}
+import type { ApiResponse, RequestConfig } from '@/services/api';
+import { AuthService } from '@/services/auth/authService';
+import {
+  OrchestratorApi,
+  alertsResponseSchema,
+  metricsResponseSchema,
+  serversListResponseSchema,
+} from '@/services/generated/orchestrator';
+import type {
+  Alert,
+  AlertQuery,
+  AlertsResponse,
+  DeployRequest,
+  DeployToServerResponse,
+  MetricsQuery,
+  MetricsResponse,
+  RestartServerResponse,
+  RevokeSessionsResponse,
+  ServerListQuery,
+  ServerStatus,
+  ServersListResponse,
+} from '@/services/generated/orchestrator';
+
+export * from '@/services/generated/orchestrator';
+
+// Query keys of the orchestrator data for the shared query cache. Invalidating
+// orchestratorQueryKeys.servers refreshes every server list, detail and metrics view.
+export const orchestratorQueryKeys = {
+  servers: ['orchestrator', 'servers'] as const,
+  serverList: (params: object = {}) => [...orchestratorQueryKeys.servers, 'list', params] as const,
+  server: (id: string) => [...orchestratorQueryKeys.servers, id] as const,
+  serverMetrics: (id: string, params: object = {}) => [...orchestratorQueryKeys.server(id), 'metrics', params] as const,
+  alerts: ['orchestrator', 'alerts'] as const,
+  alertList: (params: object = {}) => [...orchestratorQueryKeys.alerts, 'list', params] as const,
+  overview: ['orchestrator', 'overview'] as const,
+  sessions: ['orchestrator', 'sessions'] as const,
+  sessionList: (params: object = {}) => [...orchestratorQueryKeys.sessions, 'list', params] as const,
+};
 
 // Orchestrator service class
-export class OrchestratorService {
-  // Get all servers with status
-  static async getServers(params?: {
-    page?: number;
-    limit?: number;
-    status?: ServerStatus['status'];
-    region?: string;
-  }): Promise<ApiResponse<ServersListResponse>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', String(params.page));
-    if (params?.limit) queryParams.append('limit', String(params.limit));
-    if (params?.status) queryParams.append('status', params.status);
-    if (params?.region) queryParams.append('region', params.region);
-    
-    const queryString = queryParams.toString();
-    const endpoint = queryString ? `/servers?${queryString}` : '/servers';
-    
-    return orchestratorService.get<ServersListResponse>(endpoint);
-  }
-
-  // Get server by ID
-  static async getServerById(id: string): Promise<ApiResponse<ServerStatus>> {
-    return orchestratorService.get<ServerStatus>(`/servers/${id}`);
+export class OrchestratorService extends OrchestratorApi {
+  // Get all servers with status. Polls are conditional requests, unchanged lists come back as 304.
+  // The dashboards compute with the numbers, a renamed field must not turn into NaN.
+  static async getServers(params?: ServerListQuery, config?: RequestConfig): Promise<ApiResponse<ServersListResponse>> {
+    return super.getServers(params, { cache: true, schema: serversListResponseSchema, ...config });
   }
 
-  // Get server metrics
+  // Get server metrics, cached and checked like the server list
   static async getServerMetrics(
-    serverId: string, 
-    params?: {
-      from?: string;
-      to?: string;
-      interval?: '5m' | '15m' | '1h' | '6h' | '24h';
-    }
+    serverId: string,
+    params?: MetricsQuery,
+    config?: RequestConfig
   ): Promise<ApiResponse<MetricsResponse>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.from) queryParams.append('from', params.from);
-    if (params?.to) queryParams.append('to', params.to);
-    if (params?.interval) queryParams.append('interval', params.interval);
-    
-    const queryString = queryParams.toString();
-    const endpoint = queryString 
-      ? `/servers/${serverId}/metrics?${queryString}` 
-      : `/servers/${serverId}/metrics`;
-    
-    return orchestratorService.get<MetricsResponse>(endpoint);
+    return super.getServerMetrics(serverId, params, { cache: true, schema: metricsResponseSchema, ...config });
   }
 
   // Restart server
-  static async restartServer(serverId: string): Promise<ApiResponse<{ message: string }>> {
-    return orchestratorService.post<{ message: string }>(`/servers/${serverId}/restart`);
+  static async restartServer(serverId: string): Promise<ApiResponse<RestartServerResponse>> {
+    AuthService.requirePermission('servers:restart');
+    const stepUp = await AuthService.requireStepUp();
+    return super.restartServer(serverId, stepUp);
   }
 
   // Update server status
@@ -133,127 +71,45 @@ export class OrchestratorService {
     serverId: string, 
     status: ServerStatus['status']
   ): Promise<ApiResponse<ServerStatus>> {
-    return orchestratorService.patch<ServerStatus>(`/servers/${serverId}`, { status });
+    return OrchestratorApi.updateServer(serverId, { status });
   }
 
-  // Get alerts
-  static async getAlerts(params?: {
-    page?: number;
-    limit?: number;
-    severity?: Alert['severity'];
-    status?: Alert['status'];
-    serverId?: string;
-  }): Promise<ApiResponse<AlertsResponse>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', String(params.page));
-    if (params?.limit) queryParams.append('limit', String(params.limit));
-    if (params?.severity) queryParams.append('severity', params.severity);
-    if (params?.status) queryParams.append('status', params.status);
-    if (params?.serverId) queryParams.append('serverId', params.serverId);
-    
-    const queryString = queryParams.toString();
-    const endpoint = queryString ? `/alerts?${queryString}` : '/alerts';
-    
-    return orchestratorService.get<AlertsResponse>(endpoint);
+  // Get alerts, checked against their schema
+  static async getAlerts(params?: AlertQuery, config?: RequestConfig): Promise<ApiResponse<AlertsResponse>> {
+    return super.getAlerts(params, { schema: alertsResponseSchema, ...config });
   }
 
   // Acknowledge alert
   static async acknowledgeAlert(alertId: string): Promise<ApiResponse<Alert>> {
-    return orchestratorService.patch<Alert>(`/alerts/${alertId}`, { 
-      status: 'acknowledged' 
-    });
+    return OrchestratorApi.updateAlert(alertId, { status: 'acknowledged' });
   }
 
   // Resolve alert
   static async resolveAlert(alertId: string): Promise<ApiResponse<Alert>> {
-    return orchestratorService.patch<Alert>(`/alerts/${alertId}`, { 
-      status: 'resolved' 
-    });
-  }
-
-  // Get alert rules
-  static async getAlertRules(): Promise<ApiResponse<AlertRule[]>> {
-    return orchestratorService.get<AlertRule[]>('/alerts/rules');
-  }
-
-  // Create alert rule
-  static async createAlertRule(rule: Omit<AlertRule, 'id' | 'createdAt'>): Promise<ApiResponse<AlertRule>> {
-    return orchestratorService.post<AlertRule>('/alerts/rules', rule);
-  }
-
-  // Update alert rule
-  static async updateAlertRule(
-    ruleId: string, 
-    updates: Partial<Omit<AlertRule, 'id' | 'createdAt'>>
-  ): Promise<ApiResponse<AlertRule>> {
-    return orchestratorService.patch<AlertRule>(`/alerts/rules/${ruleId}`, updates);
-  }
-
-  // Delete alert rule
-  static async deleteAlertRule(ruleId: string): Promise<ApiResponse<void>> {
-    return orchestratorService.delete<void>(`/alerts/rules/${ruleId}`);
-  }
-
-  // Get system overview/dashboard data
-  static async getSystemOverview(): Promise<ApiResponse<{
-    totalServers: number;
-    onlineServers: number;
-    offlineServers: number;
-    activeAlerts: number;
-    criticalAlerts: number;
-    avgCpuUsage: number;
-    avgMemoryUsage: number;
-    totalUptime: number;
-  }>> {
-    return orchestratorService.get('/dashboard/overview');
-  }
-
-  // Get deployment status
-  static async getDeployments(params?: {
-    page?: number;
-    limit?: number;
-    status?: 'pending' | 'running' | 'completed' | 'failed';
-  }): Promise<ApiResponse<{
-    deployments: Array<{
-      id: string;
-      serverId: string;
-      version: string;
-      status: 'pending' | 'running' | 'completed' | 'failed';
-      startedAt: string;
-      completedAt?: string;
-      logs?: string[];
-    }>;
-    total: number;
-  }>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', String(params.page));
-    if (params?.limit) queryParams.append('limit', String(params.limit));
-    if (params?.status) queryParams.append('status', params.status);
-    
-    const queryString = queryParams.toString();
-    const endpoint = queryString ? `/deployments?${queryString}` : '/deployments';
-    
-    return orchestratorService.get(endpoint);
+    return OrchestratorApi.updateAlert(alertId, { status: 'resolved' });
   }
 
   // Deploy to server
   static async deployToServer(
     serverId: string, 
-    version: string
-  ): Promise<ApiResponse<{ deploymentId: string; message: string }>> {
-    return orchestratorService.post(`/servers/${serverId}/deploy`, { version });
+    request: DeployRequest
+  ): Promise<ApiResponse<DeployToServerResponse>> {
+    AuthService.requirePermission('servers:deploy');
+    const stepUp = await AuthService.requireStepUp();
+    // The key lets the orchestrator recognize a retried deploy instead of starting a second one
+    return super.deployToServer(serverId, request, { ...stepUp, idempotencyKey: true });
   }
 
-  // Get active sessions
-  static async getSessions(): Promise<ApiResponse<string[]>> {
-    return orchestratorService.get<string[]>('/sessions');
+  // Revoke a single session
+  static async revokeSession(sessionId: string): Promise<ApiResponse<RevokeSessionsResponse>> {
+    AuthService.requirePermission('sessions:revoke');
+    return super.revokeSession(sessionId);
   }
 
-  // Test orchestrator connection
-  static async testConnection(): Promise<ApiResponse<void>> {
-    return orchestratorService.get<void>('/tests');
+  // Revoke every session of a user
+  static async revokeUserSessions(userId: string): Promise<ApiResponse<RevokeSessionsResponse>> {
+    AuthService.requirePermission('sessions:revoke');
+    return super.revokeUserSessions(userId);
   }
 }
 
@@ -275,5 +131,10 @@ export const {
   getDeployments,
   deployToServer,
   getSessions,
+  revokeSession,
+  revokeUserSessions,
   testConnection,
-} = OrchestratorService;
\ No newline at end of file
+} = OrchestratorService;
+
+// While the circuit is half-open, the health check decides whether the orchestrator is back
+orchestratorService.setCircuitProbe(() => OrchestratorService.testConnection());
@@ -3,6 +3,8 @@
 // Run: npm install @microsoft/signalr
 import * as signalR from "@microsoft/signalr";
 import { signalRConfigs } from "../api/config";
+import { AuthService } from "../auth/authService";
+import type { SessionEvent } from "../auth/authService";
 
 export interface GameState {
   CurrentPhase: string;
@@ -23,6 +25,8 @@ export class GameWorldService {
 
   constructor() {
     this.connection = null;
+    // Follow logins and logouts from this and other tabs
+    AuthService.subscribe(this.handleSessionChange);
   }
 
   // Set up event callbacks
@@ -39,23 +43,20 @@ export class GameWorldService {
   // Connect to the GameWorld SignalR hub
   public async connect(): Promise<void> {
     try {
-      // Get JWT token from localStorage
-      const authTokens = localStorage.getItem('authTokens');
-      if (!authTokens) {
-        throw new Error('No authentication token found');
+      if (!AuthService.isAuthenticated()) {
+        throw new Error('No authenticated session found');
       }
 
-      const tokens = JSON.parse(authTokens);
-      const accessToken = tokens.accessToken;
-
-      if (!accessToken) {
-        throw new Error('No access token found');
+      // Replace any existing connection
+      if (this.connection) {
+        await this.disconnect();
       }
 
-      // Create SignalR connection
+      // Create SignalR connection, fetching the token (or a short-lived ticket in bff mode)
+      // on every (re)connect so refreshed sessions are picked up
       this.connection = new signalR.HubConnectionBuilder()
         .withUrl(signalRConfigs.gameWorld.baseURL, {
-          accessTokenFactory: () => accessToken
+          accessTokenFactory: () => AuthService.getHubAccessToken()
         })
         .withAutomaticReconnect()
         .build();
@@ -176,6 +177,21 @@ export class GameWorldService {
   public isConnected(): boolean {
     return this.connection?.state === signalR.HubConnectionState.Connected;
   }
+
+  // Drop the connection on logout, and reconnect on login since it may be a different account
+  private handleSessionChange = (event: SessionEvent): void => {
+    if (!this.connection) return;
+
+    if (event.type === 'logout') {
+      this.disconnect().catch((error) => {
+        console.error('Failed to disconnect from GameWorldHub:', error);
+      });
+    } else if (event.type === 'login') {
+      this.connect().catch(() => {
+        // Already reported through the error callback
+      });
+    }
+  };
 }
 
 // Export singleton instance
@@ -1,99 +1,37 @@
 // User management service for the application
+// Types, endpoints and the MainApi base class are generated from openapi/main.json.
 import { apiService } from '@/services/api';
 import type { ApiResponse } from '@/services/api';
+import { AuthService } from '@/services/auth/authService';
+import { MainApi } from '@/services/generated/main';
 
-// Define user-related types
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  avatar?: string;
-  role: 'admin' | 'user' | 'moderator';
-  createdAt: string;
-  updatedAt: string;
-}
+export * from '@/services/generated/main';
 
-export interface CreateUserRequest {
-  name: string;
-  email: string;
-  password: string;
-  role?: User['role'];
-}
-
-export interface UpdateUserRequest {
-  name?: string;
-  email?: string;
-  avatar?: string;
-  role?: User['role'];
-}
-
-export interface UsersListResponse {
-  users: User[];
-  total: number;
-  page: number;
-  limit: number;
-}
+// Query keys of the user data for the shared query cache
+export const userQueryKeys = {
+  users: ['users'] as const,
+  userList: (params: object = {}) => [...userQueryKeys.users, 'list', params] as const,
+  user: (id: string) => [...userQueryKeys.users, id] as const,
+};
 
 // User service class with specific methods
-export class UserService {
-  // Get all users with pagination
-  static async getUsers(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    role?: User['role'];
-  }): Promise<ApiResponse<UsersListResponse>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', String(params.page));
-    if (params?.limit) queryParams.append('limit', String(params.limit));
-    if (params?.search) queryParams.append('search', params.search);
-    if (params?.role) queryParams.append('role', params.role);
-    
-    const queryString = queryParams.toString();
-    const endpoint = queryString ? `/users?${queryString}` : '/users';
-    
-    return apiService.get<UsersListResponse>(endpoint);
-  }
-
-  // Get user by ID
-  static async getUserById(id: string): Promise<ApiResponse<User>> {
-    return apiService.get<User>(`/users/${id}`);
-  }
-
-  // Create new user
-  static async createUser(userData: CreateUserRequest): Promise<ApiResponse<User>> {
-    return apiService.post<User>('/users', userData);
-  }
-
-  // Update user
-  static async updateUser(id: string, userData: UpdateUserRequest): Promise<ApiResponse<User>> {
-    return apiService.patch<User>(`/users/${id}`, userData);
-  }
-
+export class UserService extends MainApi {
   // Delete user
   static async deleteUser(id: string): Promise<ApiResponse<void>> {
-    return apiService.delete<void>(`/users/${id}`);
+    AuthService.requirePermission('users:delete');
+    const stepUp = await AuthService.requireStepUp();
+    return super.deleteUser(id, stepUp);
   }
 
-  // Upload user avatar
+  // Upload user avatar, multipart uploads aren't generated
   static async uploadAvatar(userId: string, file: File): Promise<ApiResponse<{ avatarUrl: string }>> {
     return apiService.uploadFile<{ avatarUrl: string }>(
-      `/users/${userId}/avatar`,
+      '/users/:userId/avatar',
       file,
-      { userId }
+      { userId },
+      { pathParams: { userId } }
     );
   }
-
-  // Get current user profile (requires authentication)
-  static async getCurrentUser(): Promise<ApiResponse<User>> {
-    return apiService.get<User>('/users/me');
-  }
-
-  // Update current user profile
-  static async updateCurrentUser(userData: UpdateUserRequest): Promise<ApiResponse<User>> {
-    return apiService.patch<User>('/users/me', userData);
-  }
 }
 
 // Export individual methods for convenience
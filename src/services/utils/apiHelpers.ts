@@ -1,8 +1,13 @@
 // Utility functions for API operations
-import type { ApiError } from '@/services/api';
+import { toQueryString } from '@/services/api/url';
+import type { ApiError, QueryParams } from '@/services/api';
 
 // Handle API errors consistently
 export const handleApiError = (error: ApiError): string => {
+  if (error.code === 'DECODE_ERROR') {
+    return 'The server sent data in an unexpected format. Please try again later.';
+  }
+
   switch (error.status) {
     case 400:
       return error.message || 'Bad request. Please check your input.';
@@ -25,24 +30,14 @@ export const handleApiError = (error: ApiError): string => {
   }
 };
 
-// Build query string from object
-export const buildQueryString = (params: Record<string, unknown>): string => {
-  const queryParams = new URLSearchParams();
-  
-  Object.entries(params).forEach(([key, value]) => {
-    if (value !== null && value !== undefined && value !== '') {
-      if (Array.isArray(value)) {
-        value.forEach((item) => queryParams.append(key, String(item)));
-      } else {
-        queryParams.append(key, String(value));
-      }
-    }
-  });
-  
-  const queryString = queryParams.toString();
-  return queryString ? `?${queryString}` : '';
+// Requests cancelled through their AbortSignal fail with this error, it isn't shown to users
+export const isCancelledError = (error: unknown): boolean => {
+  return (error as ApiError | null)?.code === 'CANCELLED';
 };
 
+// Build query string from object, encoded like the params of a request
+export const buildQueryString = (params: QueryParams): string => toQueryString(params);
+
 // Format file size
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
@@ -117,6 +112,12 @@ export class ApiCache {
   }
 
   get(key: string): unknown | null {
+    const cached = this.getEntry(key);
+    return cached ? cached.data : null;
+  }
+
+  // Get an entry with the time it was stored, null when missing or expired
+  getEntry(key: string): { data: unknown; timestamp: number; ttl: number } | null {
     const cached = this.cache.get(key);
     
     if (!cached) {
@@ -128,7 +129,16 @@ export class ApiCache {
       return null;
     }
     
-    return cached.data;
+    return cached;
+  }
+
+  // Put back an entry taken with getEntry, keeping the time it was stored
+  restore(key: string, entry: { data: unknown; timestamp: number; ttl: number }): void {
+    this.cache.set(key, { ...entry });
+  }
+
+  keys(): string[] {
+    return Array.from(this.cache.keys());
   }
 
   delete(key: string): void {
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getFormErrors } from './formErrors';
+import type { ApiError } from '@/services/api';
+
+const USER_FIELDS = ['name', 'email', 'password'] as const;
+
+const validationError = (fieldErrors: Record<string, string[]>): ApiError => ({
+  message: 'One or more validation errors occurred.',
+  status: 400,
+  code: 'API_ERROR',
+  fieldErrors,
+});
+
+describe('getFormErrors', () => {
+  it('binds the first message of each field error to its input', () => {
+    expect(getFormErrors(validationError({
+      email: ['Email is taken.', 'Email is invalid.'],
+      password: ['Password is too short.'],
+    }), { fields: USER_FIELDS })).toEqual({
+      email: 'Email is taken.',
+      password: 'Password is too short.',
+    });
+  });
+
+  it('puts messages of fields the form doesn\'t have on the form', () => {
+    expect(getFormErrors(validationError({
+      email: ['Email is taken.'],
+      'address.city': ['City is required.'],
+      role: ['Role is unknown.'],
+    }), { fields: USER_FIELDS })).toEqual({
+      email: 'Email is taken.',
+      form: 'City is required. Role is unknown.',
+    });
+  });
+
+  it('binds server paths through aliases', () => {
+    expect(getFormErrors(validationError({ login: ['Unknown user.'] }), {
+      fields: USER_FIELDS,
+      aliases: { login: 'email' },
+    })).toEqual({ email: 'Unknown user.' });
+  });
+
+  it('binds known error codes to their input', () => {
+    const error: ApiError = { message: 'Conflict', status: 409, code: 'EMAIL_TAKEN' };
+    expect(getFormErrors(error, {
+      fields: USER_FIELDS,
+      codes: { EMAIL_TAKEN: { field: 'email', message: 'This email is already in use.' } },
+    })).toEqual({ email: 'This email is already in use.' });
+  });
+
+  it('falls back to a form message for errors without field errors', () => {
+    expect(getFormErrors({ message: 'Internal error', status: 500, code: 'API_ERROR' }, { fields: USER_FIELDS }))
+      .toEqual({ form: 'Server error. Please try again later.' });
+    expect(getFormErrors(new Error('Unable to save'), { fields: USER_FIELDS })).toEqual({ form: 'Unable to save' });
+    expect(getFormErrors(undefined, { fields: USER_FIELDS })).toEqual({ form: 'An unexpected error occurred.' });
+  });
+});
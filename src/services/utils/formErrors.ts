@@ -0,0 +1,58 @@
+// Binding the field errors of a failed request onto the inputs of a form
+import type { ApiError } from '@/services/api';
+import { handleApiError } from './apiHelpers';
+
+// Message per input of a form, 'form' holds what belongs to no input
+export type FormErrors<Field extends string> = Partial<Record<Field | 'form', string>>;
+
+export interface FormErrorOptions<Field extends string> {
+  fields: readonly Field[]; // Inputs of the form, named like the fields of the request body
+  aliases?: Record<string, Field>; // Server field paths named differently from the input
+  codes?: Record<string, { field: Field | 'form'; message: string }>; // Error codes that belong to an input
+}
+
+// Form message of an error that no input explains. Thrown Errors (e.g. from AuthContext)
+// already carry a user-facing message.
+const formMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  const apiError = error as Partial<ApiError> | null;
+  return typeof apiError?.status === 'number'
+    ? handleApiError(apiError as ApiError)
+    : 'An unexpected error occurred.';
+};
+
+// Map a failed request onto the inputs of a form: first the known error codes, then the
+// first message of each field error. Field errors of fields the form doesn't have go to 'form'.
+export const getFormErrors = <Field extends string>(
+  error: unknown,
+  options: FormErrorOptions<Field>
+): FormErrors<Field> => {
+  const { fields, aliases = {}, codes = {} } = options;
+  const apiError = error as Partial<ApiError> | null;
+  const formErrors: FormErrors<Field> = {};
+
+  const known = apiError?.code ? codes[apiError.code] : undefined;
+  if (known) {
+    formErrors[known.field] = known.message;
+  }
+
+  const unbound: string[] = [];
+  Object.entries(apiError?.fieldErrors || {}).forEach(([path, messages]) => {
+    const field = aliases[path] ?? (fields.includes(path as Field) ? path as Field : undefined);
+    if (!field) {
+      unbound.push(...messages);
+    } else if (!formErrors[field]) {
+      formErrors[field] = messages[0];
+    }
+  });
+
+  if (unbound.length > 0 && !formErrors.form) {
+    formErrors.form = unbound.join(' ');
+  }
+  if (Object.keys(formErrors).length === 0) {
+    formErrors.form = formMessage(error);
+  }
+  return formErrors;
+};
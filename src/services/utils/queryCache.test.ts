@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ApiResponse } from '@/services/api';
+import {
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  isQueryStale,
+  removeQueries,
+  setQueryData,
+  subscribeQuery,
+  updateQueryOptimistically,
+} from './queryCache';
+
+const response = <T>(data: T): ApiResponse<T> => ({ data, status: 200, success: true });
+
+afterEach(() => {
+  removeQueries();
+  vi.useRealTimers();
+});
+
+describe('fetchQuery', () => {
+  it('shares one request between concurrent reads of the same key', async () => {
+    const queryFn = vi.fn(() => Promise.resolve(response(['eu-1'])));
+
+    const [first, second] = await Promise.all([
+      fetchQuery(['servers', { page: 1, limit: 20 }], queryFn),
+      fetchQuery(['servers', { limit: 20, page: 1 }], queryFn),
+    ]);
+
+    expect(queryFn).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(getQueryData(['servers', { page: 1, limit: 20 }])).toEqual(['eu-1']);
+  });
+
+  it('sends separate requests for different keys', async () => {
+    const queryFn = vi.fn(() => Promise.resolve(response([])));
+
+    await Promise.all([fetchQuery(['servers', { page: 1 }], queryFn), fetchQuery(['servers', { page: 2 }], queryFn)]);
+
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('invalidateQueries', () => {
+  it('makes the subscribers of matching keys refetch', async () => {
+    const key = ['servers', 'list', {}];
+    let version = 0;
+    const queryFn = vi.fn(() => Promise.resolve(response({ version: ++version })));
+    await fetchQuery(key, queryFn);
+
+    const listener = vi.fn(event => (event === 'invalidated' ? fetchQuery(key, queryFn) : undefined));
+    const unsubscribe = subscribeQuery(key, listener);
+    const otherListener = vi.fn();
+    const unsubscribeOther = subscribeQuery(['alerts'], otherListener);
+
+    await invalidateQueries(['servers']);
+
+    expect(listener).toHaveBeenCalledWith('invalidated');
+    expect(otherListener).not.toHaveBeenCalled();
+    expect(queryFn).toHaveBeenCalledTimes(2);
+    expect(getQueryData(key)).toEqual({ version: 2 });
+    expect(isQueryStale(key, 60000)).toBe(false);
+    unsubscribe();
+    unsubscribeOther();
+  });
+
+  it('leaves unmounted queries stale until they are fetched again', async () => {
+    const key = ['servers'];
+    await fetchQuery(key, () => Promise.resolve(response([])));
+
+    await invalidateQueries(key);
+
+    expect(isQueryStale(key, 60000)).toBe(true);
+  });
+});
+
+describe('updateQueryOptimistically', () => {
+  it('puts the previous data back with its original age when the mutation fails', async () => {
+    vi.useFakeTimers();
+    const key = ['sessions'];
+    setQueryData(key, ['a', 'b']);
+    vi.advanceTimersByTime(10000);
+
+    const rollback = updateQueryOptimistically<string[]>(key, current => (current ?? []).filter(id => id !== 'a'));
+    expect(getQueryData(key)).toEqual(['b']);
+
+    const mutation = Promise.reject(new Error('Revoke failed'));
+    await mutation.catch(() => rollback());
+
+    expect(getQueryData(key)).toEqual(['a', 'b']);
+    expect(isQueryStale(key, 5000)).toBe(true);
+    expect(isQueryStale(key, 15000)).toBe(false);
+  });
+
+  it('removes data that only the optimistic update created', () => {
+    const key = ['sessions', 'new'];
+    const rollback = updateQueryOptimistically<string[]>(key, () => ['a']);
+
+    rollback();
+
+    expect(getQueryData(key)).toBeNull();
+  });
+
+  it('tells the subscribers about the change and the rollback', () => {
+    const key = ['sessions'];
+    setQueryData(key, ['a']);
+    const listener = vi.fn();
+    const unsubscribe = subscribeQuery(key, listener);
+
+    const rollback = updateQueryOptimistically<string[]>(key, () => []);
+    rollback();
+
+    expect(listener.mock.calls).toEqual([['updated'], ['updated']]);
+    unsubscribe();
+  });
+});
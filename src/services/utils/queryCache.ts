@@ -0,0 +1,214 @@
+// Shared cache for query hooks
+// Responses are stored in the ApiCache under their query key, so every hook using the same
+// key shares one copy of the data and one request. Mounted hooks subscribe to their key and
+// are told when the data changes or is invalidated.
+import type { ApiResponse } from '@/services/api';
+import { AuthService } from '@/services/auth/authService';
+import { ImpersonationService } from '@/services/auth/impersonationService';
+import { apiCache } from './apiHelpers';
+
+// Identifies a query, e.g. ['servers', { page: 1, limit: 20 }]. Keys are matched by prefix
+// on invalidation, so ['servers'] covers every server query.
+export type QueryKey = readonly unknown[];
+
+export type QueryEvent = 'updated' | 'invalidated';
+
+// Invalidation waits for the promise a listener returns, i.e. the refetch of a mounted hook
+export type QueryListener = (event: QueryEvent) => void | Promise<unknown>;
+
+export interface QueryCacheOptions {
+  cacheTime?: number; // How long an entry is kept, in milliseconds
+}
+
+const KEY_PREFIX = 'query:';
+
+// Unused entries are dropped after 5 minutes, like other ApiCache entries
+export const DEFAULT_CACHE_TIME = 300000;
+
+// Running requests, shared by every hook asking for the query
+const inFlight = new Map<string, { request: Promise<ApiResponse<unknown>>; controller: AbortController }>();
+const invalidated = new Set<string>();
+const listeners = new Map<string, Set<QueryListener>>();
+
+// Object keys are sorted, so { page, limit } and { limit, page } are the same query
+const sortObjectKeys = (_key: string, value: unknown): unknown => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+  );
+};
+
+export const hashQueryKey = (key: QueryKey): string => {
+  return `${KEY_PREFIX}${JSON.stringify(key, sortObjectKeys)}`;
+};
+
+// Does the query hash belong to the key prefix? An empty prefix matches every query.
+const matchesPrefix = (hash: string, prefix: QueryKey): boolean => {
+  if (prefix.length === 0) {
+    return hash.startsWith(KEY_PREFIX);
+  }
+  const prefixHash = hashQueryKey(prefix);
+  return hash === prefixHash || hash.startsWith(`${prefixHash.slice(0, -1)},`);
+};
+
+const findQueries = (prefix: QueryKey): string[] => {
+  const hashes = new Set([...apiCache.keys(), ...listeners.keys()]);
+  return Array.from(hashes).filter(hash => matchesPrefix(hash, prefix));
+};
+
+// Cancel the running request of a query, its callers get a CANCELLED error
+const cancelRequest = (hash: string): void => {
+  inFlight.get(hash)?.controller.abort();
+  inFlight.delete(hash);
+};
+
+const notify = (hash: string, event: QueryEvent): Promise<unknown>[] => {
+  return Array.from(listeners.get(hash) ?? [], listener => Promise.resolve(listener(event)));
+};
+
+const getEntry = <T>(key: QueryKey): { data: ApiResponse<T>; timestamp: number; ttl: number } | null => {
+  return apiCache.getEntry(hashQueryKey(key)) as { data: ApiResponse<T>; timestamp: number; ttl: number } | null;
+};
+
+// Cached response of a query, null when it was never fetched or has expired
+export const getQueryResponse = <T>(key: QueryKey): ApiResponse<T> | null => {
+  return getEntry<T>(key)?.data ?? null;
+};
+
+export const getQueryData = <T>(key: QueryKey): T | null => {
+  return getQueryResponse<T>(key)?.data ?? null;
+};
+
+// A query needs fetching when it isn't cached, was invalidated or is older than staleTime
+export const isQueryStale = (key: QueryKey, staleTime: number = 0): boolean => {
+  const entry = getEntry(key);
+  return !entry || invalidated.has(hashQueryKey(key)) || Date.now() - entry.timestamp >= staleTime;
+};
+
+// Replace the cached data of a query and update every hook showing it
+export const setQueryData = <T>(
+  key: QueryKey,
+  updater: T | null | ((current: T | null) => T | null),
+  options: QueryCacheOptions = {}
+): void => {
+  const hash = hashQueryKey(key);
+  const entry = getEntry<T>(key);
+  const current = entry?.data ?? null;
+  const data = typeof updater === 'function'
+    ? (updater as (current: T | null) => T | null)(current?.data ?? null)
+    : updater;
+
+  const response: ApiResponse<T> = current
+    ? { ...current, data }
+    : { data, status: 200, success: true };
+  apiCache.set(hash, response, options.cacheTime ?? entry?.ttl ?? DEFAULT_CACHE_TIME);
+  notify(hash, 'updated');
+};
+
+// Apply an optimistic change to a query before the server confirmed it. Returns a function
+// putting the previous data back, for when the change fails. The data keeps the age it had,
+// so data that was stale before the change is still refetched.
+export const updateQueryOptimistically = <T>(
+  key: QueryKey,
+  updater: (current: T | null) => T | null
+): () => void => {
+  const hash = hashQueryKey(key);
+  // A running fetch would overwrite the change with data from before it
+  cancelRequest(hash);
+  const previous = apiCache.getEntry(hash);
+  setQueryData(key, updater);
+
+  return () => {
+    if (previous) {
+      apiCache.restore(hash, previous);
+    } else {
+      apiCache.delete(hash);
+    }
+    notify(hash, 'updated');
+  };
+};
+
+// Fetch a query and cache the response. Callers asking for a query that is already being
+// fetched share the running request. The request is cancelled through the signal when the
+// query is invalidated or removed before it completes.
+export const fetchQuery = <T>(
+  key: QueryKey,
+  queryFn: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+  options: QueryCacheOptions = {}
+): Promise<ApiResponse<T>> => {
+  const hash = hashQueryKey(key);
+  const running = inFlight.get(hash);
+  if (running) {
+    return running.request as Promise<ApiResponse<T>>;
+  }
+
+  const controller = new AbortController();
+  const isCurrent = (): boolean => inFlight.get(hash)?.controller === controller;
+  const request = queryFn(controller.signal)
+    .then((response) => {
+      // An invalidation during the request started a new one, this response is outdated
+      if (isCurrent()) {
+        invalidated.delete(hash);
+        apiCache.set(hash, response, options.cacheTime ?? DEFAULT_CACHE_TIME);
+        notify(hash, 'updated');
+      }
+      return response;
+    })
+    .finally(() => {
+      if (isCurrent()) {
+        inFlight.delete(hash);
+      }
+    });
+
+  inFlight.set(hash, { request, controller });
+  return request;
+};
+
+// Mark matching queries as stale. Mounted hooks refetch right away, the others on their
+// next mount. Resolves once the refetches settled.
+export const invalidateQueries = async (prefix: QueryKey = []): Promise<void> => {
+  const refetches = findQueries(prefix).flatMap((hash) => {
+    invalidated.add(hash);
+    cancelRequest(hash);
+    return notify(hash, 'invalidated');
+  });
+  await Promise.allSettled(refetches);
+};
+
+// Drop matching queries from the cache without refetching
+export const removeQueries = (prefix: QueryKey = []): void => {
+  findQueries(prefix).forEach((hash) => {
+    apiCache.delete(hash);
+    cancelRequest(hash);
+    invalidated.delete(hash);
+  });
+};
+
+// Subscribe to changes of one query, returns an unsubscribe function
+export const subscribeQuery = (key: QueryKey, listener: QueryListener): () => void => {
+  const hash = hashQueryKey(key);
+  const keyListeners = listeners.get(hash) ?? new Set<QueryListener>();
+  keyListeners.add(listener);
+  listeners.set(hash, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(hash);
+    }
+  };
+};
+
+// Cached data belongs to the signed in user, it must not be shown to the next one
+AuthService.subscribe((event) => {
+  if (event.type === 'logout') {
+    removeQueries();
+  }
+});
+
+// Starting or stopping impersonation changes what the backends return
+ImpersonationService.subscribe(() => {
+  invalidateQueries();
+});